@@ -6,21 +6,51 @@ import type {
   MultiSelectSearchEventDetail,
   MultiSelectClearEventDetail,
   MultiSelectGroupEventDetail,
+  MultiSelectCreateEventDetail,
+  MultiSelectPasteEventDetail,
+  MultiSelectLimitEventDetail,
+  OptionInput,
+  SearchResult,
+  SearchTiming,
+  SearchStatus,
+  TextNormalizeOptions,
+  OptionLoader,
+  OptionLoaderPage,
+  OptionPatch,
+  OptionInsertPosition,
 } from './types';
 import * as NestedOptions from './NestedOptions';
+import * as VirtualScroll from './VirtualScroll';
+import { createSearchIndex } from './SearchIndex';
+import type { SearchIndex, SearchIndexEntry } from './SearchIndex';
+import { createSearchWorker } from './SearchWorker';
+import type { SearchWorker } from './SearchWorker';
 import {
   getSelectedValues,
   syncNativeSelect,
+  ensureNativeOptions,
+  buildNativeOptions,
+  normalizeLoaderResult,
+  isScrolledNearBottom,
+  createOptionContent,
+  getOptionField,
+  getMatchRanges,
+  findTypeaheadIndex,
+  highlightText,
+  uniqueId,
   createElement,
   addClass,
   removeClass,
   toggleClass,
   searchMatch,
+  searchScore,
+  normalizeText,
   formatSelectedText,
   truncate,
   getDropdownPosition,
   trapFocus,
   debounce,
+  arraysEqual,
 } from './utils';
 
 /**
@@ -32,6 +62,9 @@ const DEFAULT_CONFIG: MultiSelectConfig = {
   searchPlaceholder: 'Search...',
   searchEnabled: true,
   searchDebounce: 300,
+  typeaheadTimeout: 500,
+  data: null,
+  observe: false,
 
   // Footer Options
   showClearAll: true,
@@ -39,6 +72,12 @@ const DEFAULT_CONFIG: MultiSelectConfig = {
   clearAllText: 'Clear All',
   closeText: 'Close',
 
+  // Selection Limits
+  maxSelections: null,
+  minSelections: 0,
+  maxSelectionsText: 'You can select up to {count}',
+  minSelectionsText: 'Select at least {count}',
+
   // Display Options
   selectedDisplayMode: 'count',
   maxSelectedDisplay: 3,
@@ -47,6 +86,10 @@ const DEFAULT_CONFIG: MultiSelectConfig = {
   selectedTextSingular: '{count} selected',
   selectedTextPlural: '{count} selected',
 
+  // Rendering Options
+  renderOption: null,
+  optionTemplate: null,
+
   // Dropdown Options
   maxHeight: 300,
   position: 'auto',
@@ -55,11 +98,43 @@ const DEFAULT_CONFIG: MultiSelectConfig = {
 
   // Search Options
   searchStrategy: 'contains',
+  locale: null,
+  searchIgnorePunctuation: false,
+  searchIgnoreWhitespace: false,
+  normalize: null,
+  highlightMatches: true,
   clearSearchOnClose: true,
   searchAutoFocus: false,
+  searchFields: ['text', 'description'],
+  searchMetaKeys: [],
+  searchFilter: null,
+  searchMinLength: 0,
+  pasteSelection: true,
+  pasteSeparator: /[,\t\r\n]+/,
+
+  // Creatable Options
+  creatable: false,
+  createText: 'Create "{text}"',
+  createDisabledText: '"{text}" is not available',
+  createOption: null,
+
+  // Remote Options
+  load: null,
+  loadingText: 'Loading...',
+  loadErrorText: 'Failed to load options',
+  loadingMoreText: 'Loading more...',
+
+  // Status Options
+  emptyText: 'No options available',
+  noResultsText: 'No results found',
+  searchMinLengthTextSingular: 'Type {count} more character',
+  searchMinLengthTextPlural: 'Type {count} more characters',
+  renderStatus: null,
 
   // Performance Options
   virtualScroll: false,
+  virtualItemHeight: 40,
+  searchWorker: false,
   animation: true,
 
   // Nested Options
@@ -73,6 +148,27 @@ const DEFAULT_CONFIG: MultiSelectConfig = {
   expandIconExpanded: '▼',
 };
 
+/**
+ * Number of extra rows rendered above and below the viewport when virtual scrolling
+ */
+const VIRTUAL_OVERSCAN = 5;
+
+/**
+ * Distance in pixels from the bottom of the options list that triggers loading the next page
+ */
+const LOAD_MORE_THRESHOLD = 50;
+
+/**
+ * Status area modifier classes (the empty, loading and error messages keep their classes)
+ */
+const STATUS_CLASSES: Record<SearchStatus, string> = {
+  idle: 'empty',
+  'too-short': 'too-short',
+  searching: 'loading',
+  'no-results': 'empty',
+  error: 'error',
+};
+
 /**
  * MultiSelect class - Main component
  */
@@ -91,14 +187,46 @@ export class MultiSelect implements MultiSelectInstance {
   private searchInput: HTMLInputElement | null = null;
   private optionsList: HTMLElement | null = null;
   private footer: HTMLElement | null = null;
+  private limitMessage: HTMLElement | null = null;
 
   // State
   private _isOpen = false;
   private optionData: OptionData[] = [];
   private selectedValues: string[] = [];
   private filteredData: OptionData[] | null = null;
+  private builtFromData = false;
   private searchQuery = '';
   private focusedOptionIndex = -1;
+  private createError: string | null = null;
+  private searchResults: SearchResult[] = [];
+
+  // Tree search state (options shown for the query and expansion before the search)
+  private searchVisible: Set<string> | null = null;
+  private preSearchExpansion: Map<string, boolean> | null = null;
+
+  // Search engine state (main thread index or worker, and whether options changed since)
+  private searchIndex: SearchIndex | null = null;
+  private searchWorker: SearchWorker | null = null;
+  private searchIndexStale = true;
+
+  // Type-ahead state (keys typed while search is disabled)
+  private typeaheadBuffer = '';
+  private typeaheadTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Virtual scroll state (rows in display order and currently mounted window)
+  private virtualRows: OptionData[] = [];
+  private virtualRange: VirtualScroll.VirtualRange | null = null;
+
+  // Remote loading state
+  private loadController: AbortController | null = null;
+  private loadStatus: 'idle' | 'loading' | 'loading-more' | 'error' = 'idle';
+  private loadedQuery: string | null = null;
+  private loadPage = 1;
+  private loadCursor: string | null = null;
+  private hasMoreResults = false;
+
+  // Observes the native select for outside changes (observe mode)
+  private selectObserver: MutationObserver | null = null;
 
   // Accessibility - Live region for announcements
   private liveRegion: HTMLElement | null = null;
@@ -135,6 +263,9 @@ export class MultiSelect implements MultiSelectInstance {
 
     // Merge config with defaults
     this.config = { ...DEFAULT_CONFIG, ...config };
+    // Deprecated searchMetaKeys are searched like any other searchFields entry
+    // eslint-disable-next-line @typescript-eslint/no-deprecated -- the one place it is read
+    this.config.searchFields = [...this.config.searchFields, ...this.config.searchMetaKeys];
 
     // Initialize
     this.init();
@@ -151,10 +282,18 @@ export class MultiSelect implements MultiSelectInstance {
    * Main initialization method
    */
   private init(): void {
+    if (this.config.data) {
+      this.builtFromData = true;
+      buildNativeOptions(this.selectElement, this.config.data);
+    }
     this.parseOptions();
+    this.createSearchEngine();
     this.createUI();
     this.bindEvents();
     this.hideOriginalSelect();
+    if (this.config.observe) {
+      this.observeSelect();
+    }
     this.storeInstance();
   }
 
@@ -162,10 +301,18 @@ export class MultiSelect implements MultiSelectInstance {
    * Parse options from select element
    */
   private parseOptions(): void {
-    this.optionData = NestedOptions.parseSelectElement(
-      this.selectElement,
-      this.config.nestedOptions
-    );
+    if (this.builtFromData) {
+      // The native select built from data holds the whole tree (top-level parents are
+      // optgroups carrying their value), so outside edits are read back like markup
+      this.optionData = this.prepareOptions(
+        NestedOptions.parseSelectElement(this.selectElement, true)
+      );
+    } else {
+      this.optionData = NestedOptions.parseSelectElement(
+        this.selectElement,
+        this.config.nestedOptions
+      );
+    }
 
     // Set initial expanded state
     if (this.config.nestedOptions && this.config.defaultExpanded) {
@@ -185,11 +332,68 @@ export class MultiSelect implements MultiSelectInstance {
 
     // Update parent states if nested
     if (this.config.nestedOptions) {
-      this.optionData.forEach((option) => {
-        if (option.children.length > 0) {
-          NestedOptions.updateParentState(option, this.optionData);
-        }
-      });
+      NestedOptions.updateAllParentStates(this.optionData);
+    }
+
+    this.searchIndexStale = true;
+    this.updateSelectionLimits();
+  }
+
+  /**
+   * Create option data from inputs (flattened to leaf options when nested options are disabled)
+   */
+  private createOptions(inputs: OptionInput[], parent: OptionData | null = null): OptionData[] {
+    return this.prepareOptions(
+      NestedOptions.createOptionTree(inputs, parent?.value ?? null, parent ? parent.level + 1 : 0)
+    );
+  }
+
+  /**
+   * Flatten an option tree to leaf options when nested options are disabled
+   */
+  private prepareOptions(tree: OptionData[]): OptionData[] {
+    if (!this.config.nestedOptions) {
+      return NestedOptions.getLeafOptions(tree).map((option) => ({
+        ...option,
+        parent: null,
+        level: 0,
+      }));
+    }
+
+    if (this.config.defaultExpanded) {
+      NestedOptions.expandAll(tree);
+    }
+    return tree;
+  }
+
+  /**
+   * Finish an option mutation: sync selection and search results, then patch the UI
+   */
+  private commitOptionChanges(changedValues: Set<string>, previousValues: string[]): void {
+    this.selectedValues = NestedOptions.getLeafOptions(this.optionData)
+      .filter((option) => option.selected)
+      .map((option) => option.value);
+    this.syncSelectionToNative();
+
+    this.searchIndexStale = true;
+
+    if (this.filteredData) {
+      if (this.searchQuery && !this.config.load) {
+        this.filteredData = this.searchOptions(this.searchQuery);
+      } else {
+        const values = new Set(NestedOptions.getAllValues(this.optionData));
+        this.filteredData = this.filteredData.filter((option) => values.has(option.value));
+      }
+    }
+
+    this.patchOptionRows(changedValues);
+    this.updateTriggerText();
+
+    // Native select changes made here are already reflected in the UI
+    this.selectObserver?.takeRecords();
+
+    if (!arraysEqual(previousValues, this.selectedValues)) {
+      this.emitChangeEvent();
     }
   }
 
@@ -222,6 +426,11 @@ export class MultiSelect implements MultiSelectInstance {
       }
     }
 
+    // Token field: the inline input is the combobox controlling the listbox
+    if (this.config.selectedDisplayMode === 'tokens' && this.searchInput && this.optionsList) {
+      this.searchInput.setAttribute('aria-controls', this.optionsList.id);
+    }
+
     // Insert after select element
     this.selectElement.parentNode?.insertBefore(this.container, this.selectElement.nextSibling);
 
@@ -233,6 +442,11 @@ export class MultiSelect implements MultiSelectInstance {
    * Create trigger button
    */
   private createTrigger(): HTMLElement {
+    // Token field: tags followed by an inline search input
+    if (this.config.selectedDisplayMode === 'tokens') {
+      return this.createTokenField();
+    }
+
     const trigger = createElement('button', 'ms-multiselect__trigger', {
       type: 'button',
       'aria-haspopup': 'listbox',
@@ -249,6 +463,32 @@ export class MultiSelect implements MultiSelectInstance {
     return trigger;
   }
 
+  /**
+   * Create token field trigger (tags and inline search input)
+   */
+  private createTokenField(): HTMLElement {
+    const trigger = createElement('div', 'ms-multiselect__trigger ms-multiselect__trigger--tokens');
+
+    // The inline input doubles as the search input
+    this.searchInput = createElement('input', 'ms-multiselect__token-input', {
+      type: 'text',
+      role: 'combobox',
+      autocomplete: 'off',
+      'aria-autocomplete': 'list',
+      'aria-haspopup': 'listbox',
+      'aria-expanded': 'false',
+      'aria-label': 'Multi-select dropdown',
+    });
+    trigger.appendChild(this.searchInput);
+
+    const caret = createElement('span', 'ms-multiselect__caret', {
+      'aria-hidden': 'true',
+    });
+    trigger.appendChild(caret);
+
+    return trigger;
+  }
+
   /**
    * Create dropdown panel
    */
@@ -267,14 +507,24 @@ export class MultiSelect implements MultiSelectInstance {
       }
     );
 
-    // Add search if enabled
-    if (this.config.searchEnabled) {
+    // Add search if enabled (the token field searches from the trigger)
+    if (this.config.searchEnabled && this.config.selectedDisplayMode !== 'tokens') {
       const searchContainer = this.renderSearch();
       dropdown.appendChild(searchContainer);
     }
 
+    // Explains why the remaining options can't be selected at maxSelections
+    if (this.config.maxSelections !== null) {
+      // Hidden from the accessibility tree, the live region announces it instead
+      this.limitMessage = createElement('div', 'ms-multiselect__limit', { 'aria-hidden': 'true' });
+      this.limitMessage.textContent = this.getLimitMessage('max');
+      this.limitMessage.hidden = !this.isAtMaxSelections();
+      dropdown.appendChild(this.limitMessage);
+    }
+
     // Add options list
     this.optionsList = this.renderOptionsList();
+    this.optionsList.id = `${dropdownId}-listbox`;
     dropdown.appendChild(this.optionsList);
 
     // Add footer (only if buttons are shown)
@@ -330,6 +580,10 @@ export class MultiSelect implements MultiSelectInstance {
 
     list.style.maxHeight = `${String(this.config.maxHeight)}px`;
 
+    if (this.config.virtualScroll) {
+      addClass(list, 'ms-multiselect__options--virtual');
+    }
+
     // Render options
     this.renderOptions(list);
 
@@ -340,29 +594,222 @@ export class MultiSelect implements MultiSelectInstance {
    * Render options into list container
    */
   private renderOptions(container: HTMLElement, filteredData?: OptionData[]): void {
-    container.innerHTML = '';
-
     const dataToRender = filteredData ?? this.optionData;
 
+    // Remote loading/error states and too-short queries replace the list
+    const busy = this.loadStatus === 'loading' || this.loadStatus === 'loading-more';
+    container.setAttribute('aria-busy', busy ? 'true' : 'false');
+    const status = this.getSearchStatus();
+    if (status === 'searching' || status === 'error' || status === 'too-short') {
+      this.virtualRows = [];
+      container.replaceChildren(this.createStatusElement(status));
+      return;
+    }
+
+    // Virtual scroll: only mount the rows inside the viewport
+    if (this.config.virtualScroll) {
+      this.virtualRows = this.getVisibleOptions(dataToRender);
+      this.virtualRange = null;
+      if (this.virtualRows.length > 0) {
+        this.renderVirtualWindow(container);
+        return;
+      }
+    }
+
+    container.innerHTML = '';
+
     if (dataToRender.length === 0) {
-      const emptyMsg = createElement('div', 'ms-multiselect__empty');
-      emptyMsg.textContent = this.searchQuery ? 'No results found' : 'No options available';
-      container.appendChild(emptyMsg);
+      // Offer to create the query as a new option instead of "No results"
+      if (this.canCreateOption()) {
+        container.appendChild(this.createCreateRow());
+        return;
+      }
+
+      container.appendChild(this.createStatusElement(status));
       return;
     }
 
-    dataToRender.forEach((option) => {
-      const optionEl = this.renderOption(option);
-      container.appendChild(optionEl);
+    // Options in display order, including children of expanded groups at any depth
+    this.getVisibleOptions(dataToRender).forEach((option) => {
+      container.appendChild(this.renderOption(option));
+    });
 
-      // Render children if expanded (for nested options)
-      if (this.config.nestedOptions && option.expanded && option.children.length > 0) {
-        option.children.forEach((child) => {
-          const childEl = this.renderOption(child);
-          container.appendChild(childEl);
-        });
+    if (this.loadStatus === 'loading-more') {
+      container.appendChild(this.createLoadingMoreRow());
+    }
+  }
+
+  /**
+   * Create "loading more" row shown below the options while the next page loads
+   */
+  private createLoadingMoreRow(): HTMLElement {
+    // Hidden from the accessibility tree, the live region announces it instead
+    const row = createElement('div', 'ms-multiselect__loading-more', {
+      'aria-hidden': 'true',
+    });
+    row.textContent = this.config.loadingMoreText;
+    return row;
+  }
+
+  /**
+   * Current state of the status area. 'idle' and 'no-results' only show when the list is
+   * empty, the other states replace the list.
+   */
+  private getSearchStatus(): SearchStatus {
+    if (this.loadStatus === 'loading') return 'searching';
+    if (this.loadStatus === 'error') return 'error';
+    if (this.getMissingQueryLength(this.searchQuery) > 0) return 'too-short';
+    return this.searchQuery ? 'no-results' : 'idle';
+  }
+
+  /**
+   * Configured text for a status
+   */
+  private getStatusMessage(status: SearchStatus): string {
+    switch (status) {
+      case 'too-short':
+        return formatSelectedText(
+          this.getMissingQueryLength(this.searchQuery),
+          this.config.searchMinLengthTextSingular,
+          this.config.searchMinLengthTextPlural
+        );
+      case 'searching':
+        return this.config.loadingText;
+      case 'error':
+        return this.config.loadErrorText;
+      case 'no-results':
+        return this.config.noResultsText;
+      case 'idle':
+      default:
+        return this.config.emptyText;
+    }
+  }
+
+  /**
+   * Create the status area shown in place of the options
+   */
+  private createStatusElement(status: SearchStatus): HTMLElement {
+    const className = `ms-multiselect__status ms-multiselect__${STATUS_CLASSES[status]}`;
+    const statusEl = createElement('div', className, { 'data-status': status });
+    const message = this.getStatusMessage(status);
+
+    if (this.config.renderStatus) {
+      const content = this.config.renderStatus(status, {
+        message,
+        query: this.searchQuery,
+        remaining: status === 'too-short' ? this.getMissingQueryLength(this.searchQuery) : 0,
+      });
+      if (typeof content === 'string') {
+        statusEl.innerHTML = content;
+      } else {
+        statusEl.appendChild(content);
+      }
+    } else {
+      statusEl.textContent = message;
+    }
+
+    return statusEl;
+  }
+
+  /**
+   * Create "Create "foo"" row offering the search query as a new option
+   */
+  private createCreateRow(): HTMLElement {
+    const row = createElement('div', 'ms-multiselect__create', {
+      role: 'option',
+      'aria-selected': 'false',
+      'data-action': 'create',
+      tabindex: '-1',
+    });
+
+    const textEl = createElement('span', 'ms-multiselect__create-text');
+    textEl.textContent = this.config.createText.replace('{text}', this.searchQuery.trim());
+    row.appendChild(textEl);
+
+    // Inline validation message from createOption()
+    if (this.createError) {
+      addClass(row, 'ms-multiselect__create--invalid');
+      const errorEl = createElement('span', 'ms-multiselect__create-error');
+      errorEl.textContent = this.createError;
+      row.appendChild(errorEl);
+    }
+
+    return row;
+  }
+
+  /**
+   * Render the window of virtual rows for a scroll position
+   */
+  private renderVirtualWindow(container: HTMLElement, scrollTop = container.scrollTop): void {
+    const itemHeight = this.config.virtualItemHeight;
+    // clientHeight is 0 before layout (and in test environments), fall back to maxHeight
+    const viewportHeight = container.clientHeight || this.config.maxHeight;
+    const range = VirtualScroll.getVirtualRange(
+      scrollTop,
+      viewportHeight,
+      itemHeight,
+      this.virtualRows.length,
+      VIRTUAL_OVERSCAN
+    );
+
+    // Skip re-rendering if the mounted window hasn't changed
+    if (this.virtualRange?.start === range.start && this.virtualRange.end === range.end) {
+      return;
+    }
+    this.virtualRange = range;
+
+    const fragment = document.createDocumentFragment();
+
+    const topSpacer = createElement('div', 'ms-multiselect__virtual-spacer', {
+      role: 'presentation',
+      'aria-hidden': 'true',
+    });
+    topSpacer.style.height = `${String(range.offsetTop)}px`;
+    fragment.appendChild(topSpacer);
+
+    for (let index = range.start; index < range.end; index++) {
+      const option = this.virtualRows[index]!;
+      const optionEl = this.renderOption(option);
+      optionEl.style.height = `${String(itemHeight)}px`;
+      // Mounted rows are a subset of the list, so expose position within the full set
+      optionEl.setAttribute('aria-setsize', String(this.virtualRows.length));
+      optionEl.setAttribute('aria-posinset', String(index + 1));
+      if (index === this.focusedOptionIndex) {
+        addClass(optionEl, 'ms-multiselect__option--focused');
       }
+      fragment.appendChild(optionEl);
+    }
+
+    const bottomSpacer = createElement('div', 'ms-multiselect__virtual-spacer', {
+      role: 'presentation',
+      'aria-hidden': 'true',
     });
+    bottomSpacer.style.height = `${String(range.offsetBottom)}px`;
+    fragment.appendChild(bottomSpacer);
+
+    if (this.loadStatus === 'loading-more') {
+      fragment.appendChild(this.createLoadingMoreRow());
+    }
+
+    container.replaceChildren(fragment);
+  }
+
+  /**
+   * Scroll the virtual list so the row at index is mounted and in view
+   */
+  private scrollToVirtualIndex(index: number): void {
+    if (!this.optionsList) return;
+
+    const viewportHeight = this.optionsList.clientHeight || this.config.maxHeight;
+    const scrollTop = VirtualScroll.getScrollTopForIndex(
+      index,
+      this.optionsList.scrollTop,
+      viewportHeight,
+      this.config.virtualItemHeight
+    );
+
+    this.optionsList.scrollTop = scrollTop;
+    this.renderVirtualWindow(this.optionsList, scrollTop);
   }
 
   /**
@@ -381,6 +828,13 @@ export class MultiSelect implements MultiSelectInstance {
       optionEl.setAttribute('aria-disabled', 'true');
     }
 
+    // Options that would go past maxSelections can't be selected
+    const limited = !option.disabled && this.exceedsMaxSelections(option);
+    if (limited) {
+      addClass(optionEl, 'ms-multiselect__option--limited');
+      optionEl.setAttribute('aria-disabled', 'true');
+    }
+
     if (option.selected) {
       addClass(optionEl, 'ms-multiselect__option--selected');
     }
@@ -419,7 +873,7 @@ export class MultiSelect implements MultiSelectInstance {
       });
 
       checkbox.checked = option.selected;
-      checkbox.disabled = option.disabled;
+      checkbox.disabled = option.disabled || limited;
 
       if (option.indeterminate) {
         checkbox.indeterminate = true;
@@ -435,10 +889,64 @@ export class MultiSelect implements MultiSelectInstance {
       optionEl.appendChild(checkboxLabel);
     }
 
-    // Option text
-    const textEl = createElement('span', 'ms-multiselect__option-text');
-    textEl.textContent = option.text;
-    optionEl.appendChild(textEl);
+    // Option content (custom renderer or template, otherwise plain text)
+    const content = createOptionContent(
+      option,
+      {
+        selected: option.selected,
+        disabled: option.disabled,
+        indeterminate: option.indeterminate,
+        isParent: option.children.length > 0,
+        expanded: option.expanded,
+        level: option.level,
+        query: this.searchQuery,
+      },
+      this.config.renderOption,
+      this.config.optionTemplate
+    );
+
+    if (content) {
+      const contentEl = createElement('div', 'ms-multiselect__option-content');
+      contentEl.appendChild(content);
+      optionEl.appendChild(contentEl);
+    } else {
+      if (option.icon) {
+        const iconEl = createElement('span', 'ms-multiselect__option-icon', {
+          'aria-hidden': 'true',
+        });
+        iconEl.textContent = option.icon;
+        optionEl.appendChild(iconEl);
+      }
+
+      const textEl = createElement('span', 'ms-multiselect__option-text');
+      textEl.textContent = option.text;
+
+      // Mark the part of the text that matched the search query
+      if (this.config.highlightMatches && this.searchQuery) {
+        const ranges = getMatchRanges(
+          option.text,
+          this.searchQuery,
+          this.config.searchStrategy,
+          this.getNormalizeOptions()
+        );
+        highlightText(textEl, option.text, ranges, 'ms-multiselect__highlight');
+      }
+
+      if (option.description) {
+        // Description is read via aria-describedby, so keep it out of the accessible name
+        const labelEl = createElement('span', 'ms-multiselect__option-label');
+        const descriptionEl = createElement('span', 'ms-multiselect__option-description', {
+          id: uniqueId('ms-option-description'),
+          'aria-hidden': 'true',
+        });
+        descriptionEl.textContent = option.description;
+        labelEl.append(textEl, descriptionEl);
+        optionEl.appendChild(labelEl);
+        optionEl.setAttribute('aria-describedby', descriptionEl.id);
+      } else {
+        optionEl.appendChild(textEl);
+      }
+    }
 
     return optionEl;
   }
@@ -497,6 +1005,15 @@ export class MultiSelect implements MultiSelectInstance {
       ? selectedOptions.filter((opt) => opt.children.length === 0)
       : selectedOptions;
 
+    // Token field: tags before the input, placeholder only while nothing is selected
+    if (this.config.selectedDisplayMode === 'tokens') {
+      this.renderTags(leafOptions);
+      if (this.searchInput) {
+        this.searchInput.placeholder = count === 0 ? this.config.placeholder : '';
+      }
+      return;
+    }
+
     // Get or create text container (preserve caret)
     let textContainer = this.trigger.querySelector('.ms-multiselect__trigger-text');
     if (!textContainer) {
@@ -585,14 +1102,20 @@ export class MultiSelect implements MultiSelectInstance {
     if (existingTags) existingTags.remove();
     if (existingText) existingText.remove();
 
+    // Token field shows every selection, tags are reachable with the arrow keys
+    const tokens = this.config.selectedDisplayMode === 'tokens';
     const tagsContainer = createElement('div', 'ms-multiselect__tags');
-    const visibleOptions = selectedOptions.slice(0, this.config.maxTags);
-    const remaining = selectedOptions.length - this.config.maxTags;
+    const maxTags = tokens ? selectedOptions.length : this.config.maxTags;
+    const visibleOptions = selectedOptions.slice(0, maxTags);
+    const remaining = selectedOptions.length - maxTags;
 
     visibleOptions.forEach((option) => {
       const tag = createElement('span', 'ms-multiselect__tag', {
         'data-value': option.value,
       });
+      if (tokens) {
+        tag.setAttribute('tabindex', '-1');
+      }
 
       const tagText = createElement('span', 'ms-multiselect__tag-text');
       tagText.textContent = truncate(option.text, 20);
@@ -615,8 +1138,8 @@ export class MultiSelect implements MultiSelectInstance {
       tagsContainer.appendChild(overflow);
     }
 
-    // Insert before caret
-    const caret = this.trigger.querySelector('.ms-multiselect__caret');
+    // Insert before the token input or caret
+    const caret = tokens ? this.searchInput : this.trigger.querySelector('.ms-multiselect__caret');
     if (caret) {
       this.trigger.insertBefore(tagsContainer, caret);
     } else {
@@ -640,6 +1163,14 @@ export class MultiSelect implements MultiSelectInstance {
         return;
       }
 
+      // Token field: clicks anywhere in the field focus the input and open the list
+      if (this.config.selectedDisplayMode === 'tokens') {
+        if (this.selectElement.disabled) return;
+        this.open();
+        this.searchInput?.focus();
+        return;
+      }
+
       this.toggle();
     };
     this.trigger?.addEventListener('click', triggerClickHandler);
@@ -663,8 +1194,26 @@ export class MultiSelect implements MultiSelectInstance {
         };
       }
 
-      this.searchInput.addEventListener('input', searchHandler);
-      this.eventHandlers.set('search:input', searchHandler);
+      // Typing into the token field opens the list right away, filtering may be debounced
+      const inputHandler =
+        this.config.selectedDisplayMode === 'tokens'
+          ? (e: Event) => {
+              this.open();
+              searchHandler(e);
+            }
+          : searchHandler;
+
+      this.searchInput.addEventListener('input', inputHandler);
+      this.eventHandlers.set('search:input', inputHandler);
+
+      // Pasted lists select matching options in bulk (local options only)
+      if (this.config.pasteSelection && !this.config.load) {
+        const pasteHandler = (e: Event) => {
+          this.handlePaste(e as ClipboardEvent);
+        };
+        this.searchInput.addEventListener('paste', pasteHandler);
+        this.eventHandlers.set('search:paste', pasteHandler);
+      }
     }
 
     // Options list - event delegation
@@ -674,6 +1223,15 @@ export class MultiSelect implements MultiSelectInstance {
       };
       this.optionsList.addEventListener('click', optionsClickHandler);
       this.eventHandlers.set('options:click', optionsClickHandler);
+
+      // Options scroll - virtual window and remote pagination
+      if (this.config.virtualScroll || this.config.load) {
+        const optionsScrollHandler = () => {
+          this.handleOptionsScroll();
+        };
+        this.optionsList.addEventListener('scroll', optionsScrollHandler);
+        this.eventHandlers.set('options:scroll', optionsScrollHandler);
+      }
     }
 
     // Footer buttons - event delegation
@@ -724,6 +1282,22 @@ export class MultiSelect implements MultiSelectInstance {
       this.eventHandlers.set('trigger:tag-remove', tagRemoveHandler);
     }
 
+    // Token field keyboard (input and tags)
+    if (this.trigger && this.config.selectedDisplayMode === 'tokens') {
+      const tokenKeyHandler = (e: Event) => {
+        this.handleTokenKeydown(e as KeyboardEvent);
+      };
+      this.trigger.addEventListener('keydown', tokenKeyHandler);
+      this.eventHandlers.set('trigger:keydown', tokenKeyHandler);
+    } else if (this.trigger && !this.config.searchEnabled) {
+      // Type-ahead also works while focus is still on the trigger of the open list
+      const typeaheadHandler = (e: Event) => {
+        if (this._isOpen) this.handleTypeahead(e as KeyboardEvent);
+      };
+      this.trigger.addEventListener('keydown', typeaheadHandler);
+      this.eventHandlers.set('trigger:keydown', typeaheadHandler);
+    }
+
     // Prevent dropdown clicks from bubbling to document (FR-031)
     if (this.dropdown) {
       const dropdownClickHandler = (e: Event) => {
@@ -763,9 +1337,45 @@ export class MultiSelect implements MultiSelectInstance {
   private handleSearch(e: InputEvent): void {
     const query = (e.target as HTMLInputElement).value;
     this.searchQuery = query;
+    this.createError = null;
 
-    if (!query) {
-      this.filteredData = null;
+    // Queries shorter than searchMinLength are not searched
+    if (this.getMissingQueryLength(query) > 0) {
+      this.showTooShortStatus();
+      return;
+    }
+
+    // Remote options: results (and the search event) arrive asynchronously
+    if (this.config.load) {
+      this.loadRemoteOptions(query);
+      return;
+    }
+
+    const indexTime = query ? this.updateSearchIndex() : 0;
+
+    // Worker search: results (and the search event) arrive asynchronously
+    if (query && this.searchWorker) {
+      this.searchInWorker(this.searchWorker, query, indexTime);
+      return;
+    }
+
+    const start = performance.now();
+    const results = query ? this.searchOptions(query) : null;
+    this.showSearchResults(query, results, { index: indexTime, match: performance.now() - start });
+  }
+
+  /**
+   * Render the results of a local search (null when the query is empty), announce them
+   * and emit the search event
+   */
+  private showSearchResults(
+    query: string,
+    results: OptionData[] | null,
+    timing: SearchTiming
+  ): void {
+    this.filteredData = results;
+    if (!results) {
+      this.endTreeSearch();
       if (this.optionsList) {
         this.renderOptions(this.optionsList);
       }
@@ -774,13 +1384,14 @@ export class MultiSelect implements MultiSelectInstance {
         `Search cleared. ${String(totalCount)} option${totalCount === 1 ? '' : 's'} available.`
       );
     } else {
-      this.filteredData = this.filterOptions(query);
       if (this.optionsList) {
-        this.renderOptions(this.optionsList, this.filteredData);
+        this.renderOptions(this.optionsList, results);
       }
-      const resultCount = this.filteredData.length;
+      const resultCount = results.length;
       this.announce(
-        `${String(resultCount)} result${resultCount === 1 ? '' : 's'} found for "${query}".`
+        resultCount === 0 && !this.canCreateOption()
+          ? this.config.noResultsText
+          : `${String(resultCount)} result${resultCount === 1 ? '' : 's'} found for "${query}".`
       );
     }
 
@@ -791,6 +1402,8 @@ export class MultiSelect implements MultiSelectInstance {
     const detail: MultiSelectSearchEventDetail = {
       query,
       resultsCount: this.filteredData?.length ?? this.optionData.length,
+      results: this.filteredData ? this.searchResults : [],
+      timing,
       values: this.selectedValues,
       options: NestedOptions.getSelectedOptions(this.optionData),
       instance: this,
@@ -799,56 +1412,627 @@ export class MultiSelect implements MultiSelectInstance {
   }
 
   /**
-   * Filter options based on search query
+   * Score options in the search worker, then filter and render with the scores.
+   * Results that arrive after the query changed are dropped.
    */
-  private filterOptions(query: string): OptionData[] {
-    const filtered: OptionData[] = [];
-
-    this.optionData.forEach((option) => {
-      if (this.optionMatches(option, query)) {
-        filtered.push(option);
-
-        // Expand parent if expandOnSearch is enabled
-        if (this.config.nestedOptions && this.config.expandOnSearch) {
-          option.expanded = true;
+  private searchInWorker(worker: SearchWorker, query: string, indexTime: number): void {
+    const start = performance.now();
+    worker.search(query, this.config.searchStrategy).then(
+      (scores) => {
+        if (!scores || query !== this.searchQuery) return;
+        const results = this.filterOptions(query, scores);
+        this.showSearchResults(query, results, {
+          index: indexTime,
+          match: performance.now() - start,
+        });
+      },
+      () => {
+        // Worker failed: search on the main thread from now on
+        worker.terminate();
+        this.searchWorker = null;
+        this.searchIndex = createSearchIndex(this.getNormalizeOptions());
+        this.searchIndexStale = true;
+        if (query === this.searchQuery) {
+          const fallbackIndexTime = this.updateSearchIndex();
+          const fallbackStart = performance.now();
+          const results = this.searchOptions(query);
+          this.showSearchResults(query, results, {
+            index: fallbackIndexTime,
+            match: performance.now() - fallbackStart,
+          });
         }
       }
-    });
+    );
+  }
 
-    return filtered;
+  /**
+   * Characters the query still needs before it is searched (0 when it can be searched).
+   * An empty query lists every local option, but remote options wait for searchMinLength.
+   */
+  private getMissingQueryLength(query: string): number {
+    const length = query.trim().length;
+    if (!this.config.searchEnabled || (length === 0 && !this.config.load)) return 0;
+    return Math.max(0, this.config.searchMinLength - length);
   }
 
   /**
-   * Check if option matches search query
+   * Replace the options with the too-short status until the query is long enough
    */
-  private optionMatches(option: OptionData, query: string): boolean {
-    // Check option itself
-    if (searchMatch(option.text, query, this.config.searchStrategy)) {
-      return true;
+  private showTooShortStatus(): void {
+    if (this.config.load) {
+      this.abortRemoteLoad();
     }
-
-    // Check children recursively
-    if (option.children.length > 0) {
-      return option.children.some((child) => this.optionMatches(child, query));
+    this.filteredData = [];
+    this.endTreeSearch();
+    this.focusedOptionIndex = -1;
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList);
     }
-
-    return false;
+    this.announce(this.getStatusMessage('too-short'));
   }
 
   /**
-   * Handle clicks in options list
+   * Set up local search: a worker when requested and possible (custom filter and normalize
+   * functions can't be sent to a worker), otherwise a normalized index on the main thread.
+   * A custom searchFilter replaces field matching, so it needs neither.
    */
-  private handleOptionsClick(e: MouseEvent): void {
-    const target = e.target as HTMLElement;
-    const optionEl = target.closest('.ms-multiselect__option')!;
+  private createSearchEngine(): void {
+    if (this.config.load || this.config.searchFilter) return;
 
-    if (!optionEl) return;
+    if (this.config.searchWorker && !this.config.normalize) {
+      this.searchWorker = createSearchWorker(this.getNormalizeOptions());
+    }
+    if (!this.searchWorker) {
+      this.searchIndex = createSearchIndex(this.getNormalizeOptions());
+    }
+  }
 
-    const value = optionEl.getAttribute('data-value');
-    if (!value) return;
+  /**
+   * Bring the search index (or the worker's copy) in line with the options after they
+   * changed. Returns the time spent in milliseconds.
+   */
+  private updateSearchIndex(): number {
+    if (!this.searchIndexStale || (!this.searchIndex && !this.searchWorker)) return 0;
+
+    const start = performance.now();
+    const entries = this.getSearchEntries();
+    this.searchIndex?.sync(entries);
+    this.searchWorker?.setIndex(entries);
+    this.searchIndexStale = false;
+    return performance.now() - start;
+  }
 
-    const option = NestedOptions.findOption(this.optionData, value);
-    if (!option || option.disabled) return;
+  /**
+   * Filter options for a query on the main thread, through the search index when there is one
+   */
+  private searchOptions(query: string): OptionData[] {
+    if (this.getMissingQueryLength(query) > 0) return [];
+    if (!this.searchIndex) return this.filterOptions(query);
+
+    this.updateSearchIndex();
+    return this.filterOptions(query, this.searchIndex.search(query, this.config.searchStrategy));
+  }
+
+  /**
+   * Searchable field values of every option (parents included) for the search index
+   */
+  private getSearchEntries(): SearchIndexEntry[] {
+    return NestedOptions.flattenOptions(this.optionData).map((option) => ({
+      value: option.value,
+      fields: this.config.searchFields
+        .map((field) => getOptionField(option, field))
+        .filter((value) => value !== ''),
+    }));
+  }
+
+  /**
+   * Handle a list pasted into the search input (bulk selection)
+   */
+  private handlePaste(e: ClipboardEvent): void {
+    const text = e.clipboardData?.getData('text/plain') ?? '';
+    const tokens = text
+      .split(this.config.pasteSeparator)
+      .map((token) => token.trim())
+      .filter((token) => token !== '');
+
+    // A single term is pasted as an ordinary search query
+    if (tokens.length < 2) return;
+    e.preventDefault();
+
+    const candidates = NestedOptions.getLeafOptions(this.optionData).filter((opt) => !opt.disabled);
+    const matched = new Set<string>();
+    const unmatched: string[] = [];
+    const normalizeOptions = this.getNormalizeOptions();
+
+    tokens.forEach((token) => {
+      // Exact value or text matches win over looser search strategy matches
+      const normalized = normalizeText(token, normalizeOptions);
+      let matches = candidates.filter(
+        (opt) =>
+          normalizeText(opt.value, normalizeOptions) === normalized ||
+          normalizeText(opt.text, normalizeOptions) === normalized
+      );
+      if (matches.length === 0) {
+        matches = candidates.filter(
+          (opt) =>
+            searchMatch(opt.value, token, this.config.searchStrategy, normalizeOptions) ||
+            searchMatch(opt.text, token, this.config.searchStrategy, normalizeOptions)
+        );
+      }
+
+      if (matches.length === 0) {
+        unmatched.push(token);
+      }
+      matches.forEach((opt) => matched.add(opt.value));
+    });
+
+    // Select every match at once: one setValue call, one change event
+    const selected = new Set(this.selectedValues);
+    const unselected = Array.from(matched).filter((value) => !selected.has(value));
+    const max = this.config.maxSelections;
+    const added = max === null ? unselected : unselected.slice(0, Math.max(0, max - selected.size));
+    if (added.length > 0) {
+      this.setValue([...this.selectedValues, ...added]);
+    }
+
+    const count = added.length;
+    let message = `${String(count)} item${count === 1 ? '' : 's'} selected from pasted list.`;
+    if (unmatched.length > 0) {
+      message += ` No match for: ${unmatched.join(', ')}.`;
+    }
+    this.announce(message);
+
+    const detail: MultiSelectPasteEventDetail = {
+      tokens,
+      matched: Array.from(matched),
+      added,
+      dropped: unselected.slice(added.length),
+      unmatched,
+      values: this.selectedValues,
+      options: NestedOptions.getSelectedOptions(this.optionData),
+      instance: this,
+    };
+    this.emitEvent('multiselect:paste', detail);
+
+    if (added.length < unselected.length) {
+      this.handleLimit('max', null);
+    }
+  }
+
+  /**
+   * Load options from the remote loader for a search query
+   */
+  private loadRemoteOptions(query: string): void {
+    const load = this.config.load;
+    if (!load) return;
+
+    // Cancel any in-flight request, only the latest query matters
+    this.abortRemoteLoad();
+    const controller = new AbortController();
+    this.loadController = controller;
+
+    // Start paging over for the new query
+    this.loadPage = 1;
+    this.loadCursor = null;
+    this.hasMoreResults = false;
+
+    this.loadStatus = 'loading';
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList);
+    }
+    this.announce(this.config.loadingText);
+
+    this.requestRemotePage(load, query, 0, controller.signal).then(
+      (result) => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        this.hasMoreResults = result.hasMore;
+        this.loadCursor = result.cursor;
+        this.applyRemoteOptions(query, result.options);
+      },
+      () => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        this.loadStatus = 'error';
+        if (this.optionsList) {
+          this.renderOptions(this.optionsList);
+        }
+        this.announce(this.config.loadErrorText);
+      }
+    );
+  }
+
+  /**
+   * Replace the options list with remote results, keeping selected options
+   */
+  private applyRemoteOptions(query: string, inputs: OptionInput[]): void {
+    const loaded = this.createRemoteOptions(query, inputs);
+    const loadedValues = new Set(NestedOptions.getAllValues(loaded));
+
+    // Selected options not part of the results stay known so they remain selected
+    const kept = NestedOptions.getLeafOptions(this.optionData)
+      .filter((option) => option.selected && !loadedValues.has(option.value))
+      .map((option) => ({ ...option, parent: null, level: 0 }));
+
+    this.optionData = [...kept, ...loaded];
+    this.filteredData = loaded;
+    this.loadedQuery = query;
+    this.loadStatus = 'idle';
+    this.focusedOptionIndex = -1;
+
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList, this.filteredData);
+    }
+
+    const resultCount = loaded.length;
+    if (resultCount === 0) {
+      this.announce(this.getStatusMessage(this.getSearchStatus()));
+    } else {
+      this.announce(
+        query
+          ? `${String(resultCount)} result${resultCount === 1 ? '' : 's'} found for "${query}".`
+          : `${String(resultCount)} option${resultCount === 1 ? '' : 's'} available.`
+      );
+    }
+
+    // Emit search event
+    const detail: MultiSelectSearchEventDetail = {
+      query,
+      resultsCount: resultCount,
+      results: loaded.map((option) => ({ value: option.value, text: option.text, score: 1 })),
+      timing: { index: 0, match: 0 },
+      values: this.selectedValues,
+      options: NestedOptions.getSelectedOptions(this.optionData),
+      instance: this,
+    };
+    this.emitEvent('multiselect:search', detail);
+    this.fillRemoteList();
+  }
+
+  /**
+   * Call the remote loader for one page and normalize its result
+   */
+  private requestRemotePage(
+    load: OptionLoader,
+    query: string,
+    offset: number,
+    signal: AbortSignal
+  ): Promise<Required<OptionLoaderPage>> {
+    return new Promise<OptionInput[] | OptionLoaderPage>((resolve) => {
+      resolve(load(query, { signal, page: this.loadPage, offset, cursor: this.loadCursor }));
+    }).then(normalizeLoaderResult);
+  }
+
+  /**
+   * Load the next page of remote options and append it to the list
+   */
+  private loadMoreRemoteOptions(): void {
+    const load = this.config.load;
+    if (!load || !this.hasMoreResults || this.loadStatus !== 'idle') return;
+
+    const controller = new AbortController();
+    this.loadController = controller;
+    this.loadPage += 1;
+
+    this.loadStatus = 'loading-more';
+    this.optionsList?.setAttribute('aria-busy', 'true');
+    this.optionsList?.appendChild(this.createLoadingMoreRow());
+    this.announce(this.config.loadingMoreText);
+
+    const offset = this.filteredData?.length ?? 0;
+    this.requestRemotePage(load, this.loadedQuery ?? '', offset, controller.signal).then(
+      (result) => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        this.hasMoreResults = result.hasMore;
+        this.loadCursor = result.cursor;
+        this.appendRemoteOptions(result.options);
+      },
+      () => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        // Allow the page to be requested again on the next scroll
+        this.loadPage -= 1;
+        this.loadStatus = 'idle';
+        this.optionsList?.setAttribute('aria-busy', 'false');
+        this.optionsList?.querySelector('.ms-multiselect__loading-more')?.remove();
+        this.announce(this.config.loadErrorText);
+      }
+    );
+  }
+
+  /**
+   * Append a page of remote results without resetting focus or scroll position
+   */
+  private appendRemoteOptions(inputs: OptionInput[]): void {
+    const shown = this.filteredData ?? [];
+    const shownValues = new Set(NestedOptions.getAllValues(shown));
+    const added = this.createRemoteOptions(this.loadedQuery ?? '', inputs).filter(
+      (option) => !shownValues.has(option.value)
+    );
+    const addedValues = new Set(NestedOptions.getAllValues(added));
+
+    // Added options replace kept selected options with the same value
+    this.optionData = [
+      ...this.optionData.filter((option) => !addedValues.has(option.value)),
+      ...added,
+    ];
+    this.filteredData = [...shown, ...added];
+    this.loadStatus = 'idle';
+
+    if (this.optionsList) {
+      this.optionsList.setAttribute('aria-busy', 'false');
+      if (this.config.virtualScroll && this.virtualRows.length > 0) {
+        // Rows are only appended, so the current window and focused index stay valid
+        this.virtualRows = this.getVisibleOptions(this.filteredData);
+        this.virtualRange = null;
+        this.renderVirtualWindow(this.optionsList);
+      } else {
+        this.optionsList.querySelector('.ms-multiselect__loading-more')?.remove();
+        this.getVisibleOptions(added).forEach((option) => {
+          this.optionsList?.appendChild(this.renderOption(option));
+        });
+      }
+    }
+
+    this.announce(`${String(added.length)} more option${added.length === 1 ? '' : 's'} loaded.`);
+    this.fillRemoteList();
+  }
+
+  /**
+   * Load the next page while the loaded options don't fill the list, as there is nothing
+   * to scroll yet. Skipped while the list isn't laid out (closed dropdown).
+   */
+  private fillRemoteList(): void {
+    const list = this.optionsList;
+    if (!list || !this.hasMoreResults || list.clientHeight === 0) return;
+
+    if (isScrolledNearBottom(list, LOAD_MORE_THRESHOLD)) {
+      this.loadMoreRemoteOptions();
+    }
+  }
+
+  /**
+   * Handle options list scroll
+   */
+  private handleOptionsScroll(): void {
+    if (!this.optionsList) return;
+
+    // Virtual scroll - mount rows for the new scroll position
+    if (this.config.virtualScroll && this.virtualRows.length > 0) {
+      this.renderVirtualWindow(this.optionsList);
+    }
+
+    // Remote pagination - request the next page near the bottom
+    if (this.hasMoreResults && isScrolledNearBottom(this.optionsList, LOAD_MORE_THRESHOLD)) {
+      this.loadMoreRemoteOptions();
+    }
+  }
+
+  /**
+   * Create option data for remote results, restoring selection state
+   */
+  private createRemoteOptions(query: string, inputs: OptionInput[]): OptionData[] {
+    const options = NestedOptions.createOptionTree(inputs);
+
+    // Restore selection state for options that are already selected
+    NestedOptions.flattenOptions(options).forEach((option) => {
+      option.selected = this.selectedValues.includes(option.value);
+    });
+    if (this.config.nestedOptions) {
+      NestedOptions.updateAllParentStates(options);
+      if (this.config.defaultExpanded || (query && this.config.expandOnSearch)) {
+        NestedOptions.expandAll(options);
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Cancel in-flight remote request (results must be loaded again from the first page)
+   */
+  private abortRemoteLoad(): void {
+    if (this.loadController) {
+      this.loadController.abort();
+      this.loadController = null;
+    }
+    this.loadStatus = 'idle';
+    this.loadedQuery = null;
+    this.hasMoreResults = false;
+  }
+
+  /**
+   * Sync selected values to native select element
+   */
+  private syncSelectionToNative(): void {
+    // Remote options may not exist in the native select yet
+    if (this.config.load) {
+      ensureNativeOptions(
+        this.selectElement,
+        NestedOptions.getLeafOptions(this.optionData).filter((option) => option.selected)
+      );
+    }
+    syncNativeSelect(this.selectElement, this.selectedValues);
+    this.updateSelectionLimits();
+  }
+
+  /**
+   * Filter options based on search query
+   */
+  private filterOptions(query: string, scores?: Map<string, number>): OptionData[] {
+    const results: { option: OptionData; score: number }[] = [];
+    // Own score of an option: computed by the search worker, or matched here
+    const scoreOf = (option: OptionData): number =>
+      scores ? (scores.get(option.value) ?? 0) : this.matchScore(option, query);
+
+    // Trees show only matching branches, expanded from the pre-search state
+    if (this.config.nestedOptions) {
+      this.beginTreeSearch();
+      const visible = new Set<string>();
+      this.optionData.forEach((option) => {
+        this.collectSearchBranch(option, scoreOf, visible);
+      });
+      this.searchVisible = visible;
+    }
+
+    this.optionData.forEach((option) => {
+      const score = this.optionScore(option, scoreOf);
+      if (score > 0) {
+        results.push({ option, score });
+      }
+    });
+
+    // Fuzzy and custom filter results are ranked by relevance (ties keep their original order)
+    if (this.config.searchStrategy === 'fuzzy' || this.config.searchFilter) {
+      results.sort((a, b) => b.score - a.score);
+    }
+
+    this.searchResults = results.map(({ option, score }) => ({
+      value: option.value,
+      text: option.text,
+      score,
+    }));
+    return results.map(({ option }) => option);
+  }
+
+  /**
+   * Score option against search query (0 = no match), best of its fields and children
+   */
+  private optionScore(option: OptionData, scoreOf: (option: OptionData) => number): number {
+    let score = scoreOf(option);
+
+    // Check children recursively
+    option.children.forEach((child) => {
+      score = Math.max(score, this.optionScore(child, scoreOf));
+    });
+
+    return score;
+  }
+
+  /**
+   * Score the option's own fields against search query (0 = no match)
+   */
+  private matchScore(option: OptionData, query: string): number {
+    let score = 0;
+
+    if (this.config.searchFilter) {
+      // Custom predicate replaces field matching (true/false count as 1/0)
+      const result = this.config.searchFilter(option, query);
+      score = Math.max(Number(result), 0);
+    } else {
+      // Configured search fields and metadata keys
+      const strategy = this.config.searchStrategy;
+      const normalizeOptions = this.getNormalizeOptions();
+      this.config.searchFields.forEach((field) => {
+        const value = getOptionField(option, field);
+        if (value) {
+          score = Math.max(score, searchScore(value, query, strategy, normalizeOptions));
+        }
+      });
+    }
+
+    return score;
+  }
+
+  /**
+   * Collect the options shown by a tree search: matching options with their subtrees
+   * and the ancestor path to every match. Ancestors are expanded when expandOnSearch is on.
+   */
+  private collectSearchBranch(
+    option: OptionData,
+    scoreOf: (option: OptionData) => number,
+    visible: Set<string>
+  ): boolean {
+    const matches = scoreOf(option) > 0;
+
+    let hasMatchingDescendant = false;
+    option.children.forEach((child) => {
+      if (this.collectSearchBranch(child, scoreOf, visible)) {
+        hasMatchingDescendant = true;
+      }
+    });
+
+    if (matches) {
+      NestedOptions.flattenOptions([option]).forEach((node) => visible.add(node.value));
+    }
+    if (hasMatchingDescendant) {
+      visible.add(option.value);
+      if (this.config.expandOnSearch) {
+        option.expanded = true;
+      }
+    }
+
+    return matches || hasMatchingDescendant;
+  }
+
+  /**
+   * Start a tree search from the expansion state the user had before searching
+   */
+  private beginTreeSearch(): void {
+    if (this.preSearchExpansion) {
+      this.restoreExpansion(this.preSearchExpansion);
+    } else {
+      this.preSearchExpansion = new Map(
+        NestedOptions.flattenOptions(this.optionData).map((option) => [
+          option.value,
+          option.expanded,
+        ])
+      );
+    }
+  }
+
+  /**
+   * End a tree search, restoring the expansion state from before the search
+   */
+  private endTreeSearch(): void {
+    this.searchVisible = null;
+    if (this.preSearchExpansion) {
+      this.restoreExpansion(this.preSearchExpansion);
+      this.preSearchExpansion = null;
+    }
+  }
+
+  /**
+   * Apply saved expansion states (options added since keep their own)
+   */
+  private restoreExpansion(expansion: Map<string, boolean>): void {
+    NestedOptions.flattenOptions(this.optionData).forEach((option) => {
+      option.expanded = expansion.get(option.value) ?? option.expanded;
+    });
+  }
+
+  /**
+   * Text normalization options for search matching
+   */
+  private getNormalizeOptions(): TextNormalizeOptions {
+    return {
+      locale: this.config.locale,
+      ignorePunctuation: this.config.searchIgnorePunctuation,
+      ignoreWhitespace: this.config.searchIgnoreWhitespace,
+      normalize: this.config.normalize,
+    };
+  }
+
+  /**
+   * Handle clicks in options list
+   */
+  private handleOptionsClick(e: MouseEvent): void {
+    const target = e.target as HTMLElement;
+
+    if (target.closest('[data-action="create"]')) {
+      this.handleCreate();
+      return;
+    }
+    const optionEl = target.closest('.ms-multiselect__option')!;
+
+    if (!optionEl) return;
+
+    const value = optionEl.getAttribute('data-value');
+    if (!value) return;
+
+    const option = NestedOptions.findOption(this.optionData, value);
+    if (!option || option.disabled) return;
 
     // Handle expand/collapse icon click
     if (target.getAttribute('data-action') === 'expand') {
@@ -865,6 +2049,11 @@ export class MultiSelect implements MultiSelectInstance {
    * Handle option click (selection toggle)
    */
   private handleOptionClick(option: OptionData): void {
+    if (this.exceedsMaxSelections(option)) {
+      this.handleLimit('max', option);
+      return;
+    }
+
     const wasSelected = option.selected;
 
     if (option.selected) {
@@ -883,33 +2072,226 @@ export class MultiSelect implements MultiSelectInstance {
       }
     }
 
-    // Update parent states
-    if (this.config.nestedOptions) {
-      NestedOptions.updateParentState(option, this.optionData);
+    // Update parent states
+    if (this.config.nestedOptions) {
+      NestedOptions.updateParentState(option, this.optionData);
+    }
+
+    // Update selected values
+    this.selectedValues = NestedOptions.getLeafOptions(this.optionData)
+      .filter((opt) => opt.selected)
+      .map((opt) => opt.value);
+
+    // Sync with native select
+    this.syncSelectionToNative();
+
+    // Token field: the typed text is consumed by the selection
+    if (this.config.selectedDisplayMode === 'tokens' && this.searchInput?.value) {
+      this.searchInput.value = '';
+      this.searchQuery = '';
+      this.filteredData = null;
+      this.endTreeSearch();
+    }
+
+    // Update UI
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+    }
+    this.updateTriggerText();
+
+    // Announce selection change
+    const action = wasSelected ? 'deselected' : 'selected';
+    let message = `${option.text} ${action}. ${String(this.selectedValues.length)} item${this.selectedValues.length === 1 ? '' : 's'} selected.`;
+    if (!wasSelected && this.isAtMaxSelections()) {
+      message += ` ${this.getLimitMessage('max')}.`;
+    }
+    this.announce(message);
+
+    // Emit change event
+    this.emitChangeEvent();
+  }
+
+  /**
+   * Check whether the selection has reached maxSelections
+   */
+  private isAtMaxSelections(): boolean {
+    const max = this.config.maxSelections;
+    return max !== null && this.selectedValues.length >= max;
+  }
+
+  /**
+   * Check whether selecting an option would go past maxSelections. A cascading parent
+   * counts every child it would select.
+   */
+  private exceedsMaxSelections(option: OptionData): boolean {
+    const max = this.config.maxSelections;
+    if (max === null || option.selected) return false;
+
+    const cascade = this.config.nestedOptions && this.config.cascadeSelection;
+    const added =
+      option.children.length === 0 || cascade
+        ? NestedOptions.getLeafOptions([option]).filter((leaf) => !leaf.selected).length
+        : 0;
+    return added > 0 && this.selectedValues.length + added > max;
+  }
+
+  /**
+   * Message for a selection limit
+   */
+  private getLimitMessage(limit: 'max' | 'min'): string {
+    return limit === 'max'
+      ? this.config.maxSelectionsText.replace('{count}', String(this.config.maxSelections ?? 0))
+      : this.config.minSelectionsText.replace('{count}', String(this.config.minSelections));
+  }
+
+  /**
+   * Emit the limit event for a user action blocked by a selection limit and, unless a
+   * listener prevents it, announce why
+   */
+  private handleLimit(limit: 'max' | 'min', option: OptionData | null): void {
+    const detail: MultiSelectLimitEventDetail = {
+      limit,
+      count: limit === 'max' ? (this.config.maxSelections ?? 0) : this.config.minSelections,
+      option,
+      values: this.selectedValues,
+      options: NestedOptions.getSelectedOptions(this.optionData),
+      instance: this,
+    };
+    if (!this.emitEvent('multiselect:limit', detail)) return;
+
+    this.announce(`${this.getLimitMessage(limit)}.`);
+  }
+
+  /**
+   * Apply the selection limits after the selection changed: form validity, the max message
+   * and whether rendered options can still be selected
+   */
+  private updateSelectionLimits(): void {
+    const { maxSelections, minSelections } = this.config;
+    if (maxSelections === null && minSelections === 0) return;
+
+    // The native select carries the validity, so forms block submission below the minimum
+    const count = this.selectedValues.length;
+    let validationMessage = '';
+    if (count < minSelections) {
+      validationMessage = this.getLimitMessage('min');
+    } else if (maxSelections !== null && count > maxSelections) {
+      validationMessage = this.getLimitMessage('max');
+    }
+    this.selectElement.setCustomValidity(validationMessage);
+
+    if (maxSelections === null) return;
+    if (this.limitMessage) {
+      this.limitMessage.hidden = !this.isAtMaxSelections();
+    }
+
+    const options = new Map(
+      NestedOptions.flattenOptions(this.optionData).map((option) => [option.value, option])
+    );
+    this.optionsList
+      ?.querySelectorAll<HTMLElement>('.ms-multiselect__option')
+      .forEach((optionEl) => {
+        const option = options.get(optionEl.getAttribute('data-value') ?? '');
+        if (!option || option.disabled) return;
+
+        const limited = this.exceedsMaxSelections(option);
+        toggleClass(optionEl, 'ms-multiselect__option--limited', limited);
+        if (limited) {
+          optionEl.setAttribute('aria-disabled', 'true');
+        } else {
+          optionEl.removeAttribute('aria-disabled');
+        }
+        const checkbox = optionEl.querySelector<HTMLInputElement>('.ms-multiselect__checkbox');
+        if (checkbox) {
+          checkbox.disabled = limited;
+        }
+      });
+  }
+
+  /**
+   * Check whether the search query can be created as a new option (creatable mode)
+   */
+  private canCreateOption(): boolean {
+    return (
+      this.config.creatable &&
+      !this.config.load &&
+      this.searchQuery.trim() !== '' &&
+      this.getMissingQueryLength(this.searchQuery) === 0 &&
+      this.filteredData?.length === 0
+    );
+  }
+
+  /**
+   * Create an option from the search query and select it
+   */
+  private handleCreate(): void {
+    if (!this.canCreateOption()) return;
+
+    const text = this.searchQuery.trim();
+    const result = this.config.createOption
+      ? this.config.createOption(text)
+      : { value: text, text };
+
+    // Rejected by createOption(): show the message inline
+    if ('error' in result) {
+      this.createError = result.error;
+      if (this.optionsList) {
+        this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      }
+      this.announce(result.error);
+      return;
+    }
+
+    // A normalized value may already exist: select it instead of adding a duplicate
+    const existing = NestedOptions.findOption(this.optionData, result.value);
+    if (existing?.disabled) {
+      this.createError = this.config.createDisabledText.replace('{text}', existing.text);
+      if (this.optionsList) {
+        this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      }
+      this.announce(this.createError);
+      return;
+    }
+    if (existing ? this.exceedsMaxSelections(existing) : this.isAtMaxSelections()) {
+      this.handleLimit('max', existing ?? null);
+      return;
+    }
+
+    let option = result;
+    if (!existing) {
+      const detail: MultiSelectCreateEventDetail = {
+        text,
+        option: result,
+        values: this.selectedValues,
+        options: NestedOptions.getSelectedOptions(this.optionData),
+        instance: this,
+      };
+      if (!this.emitEvent('multiselect:create', detail)) return;
+      option = detail.option;
     }
 
-    // Update selected values
-    this.selectedValues = NestedOptions.getLeafOptions(this.optionData)
-      .filter((opt) => opt.selected)
-      .map((opt) => opt.value);
+    // Clear the search so the option shows up in the full list
+    if (this.searchInput) {
+      this.searchInput.value = '';
+    }
+    this.searchQuery = '';
+    this.filteredData = null;
+    this.endTreeSearch();
+    this.createError = null;
+    this.focusedOptionIndex = -1;
 
-    // Sync with native select
-    syncNativeSelect(this.selectElement, this.selectedValues);
+    if (existing) {
+      if (!existing.selected) {
+        this.updateOption(existing.value, { selected: true });
+      }
+    } else {
+      this.addOptions([{ ...option, selected: true }]);
+    }
 
-    // Update UI
     if (this.optionsList) {
-      this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      this.renderOptions(this.optionsList);
     }
-    this.updateTriggerText();
-
-    // Announce selection change
-    const action = wasSelected ? 'deselected' : 'selected';
-    this.announce(
-      `${option.text} ${action}. ${String(this.selectedValues.length)} item${this.selectedValues.length === 1 ? '' : 's'} selected.`
-    );
-
-    // Emit change event
-    this.emitChangeEvent();
+    this.announce(existing ? `${existing.text} selected.` : `${option.text} created and selected.`);
   }
 
   /**
@@ -957,6 +2339,16 @@ export class MultiSelect implements MultiSelectInstance {
    * Handle clear all
    */
   private handleClearAll(): void {
+    // Clear down to minSelections, keeping the earliest selections
+    const min = this.config.minSelections;
+    if (min > 0 && this.selectedValues.length > 0) {
+      if (this.selectedValues.length > min) {
+        this.setValue(this.selectedValues.slice(0, min));
+      }
+      this.handleLimit('min', null);
+      return;
+    }
+
     this.clearAll();
     this.announce('All selections cleared.');
   }
@@ -1050,12 +2442,28 @@ export class MultiSelect implements MultiSelectInstance {
   private handleKeyboardNav(e: KeyboardEvent): void {
     if (!this._isOpen || !this.dropdown) return;
 
+    // Token field: focus stays in the input, so Tab leaves and Home/End/Space edit the text
+    const tokens = this.config.selectedDisplayMode === 'tokens';
+    if (tokens && e.key === 'Tab') {
+      this.close();
+      return;
+    }
+    if (tokens && (e.key === 'Home' || e.key === 'End' || e.key === ' ')) {
+      return;
+    }
+
     // Focus trap
     if (e.key === 'Tab') {
       trapFocus(this.dropdown, e);
       return;
     }
 
+    // Type-ahead (search disabled): jump to the next option starting with the typed text
+    if (this.handleTypeahead(e)) return;
+
+    // The create row stands in for the options when the query matches nothing
+    if (this.handleCreateRowNav(e)) return;
+
     const visibleOptions = this.getVisibleOptions();
 
     // Arrow Down - move to next option (with wrapping and skip disabled)
@@ -1108,6 +2516,7 @@ export class MultiSelect implements MultiSelectInstance {
       const option = visibleOptions[this.focusedOptionIndex];
       if (option && !option.disabled) {
         this.handleOptionClick(option);
+        if (tokens) return;
 
         // Restore focus to the checkbox after toggle
         requestAnimationFrame(() => {
@@ -1122,53 +2531,205 @@ export class MultiSelect implements MultiSelectInstance {
       }
     }
 
-    // Arrow Right - expand group (if parent)
+    // Arrow Right - expand group (if parent), or move into an expanded group
     if (e.key === 'ArrowRight' && this.config.nestedOptions) {
       const option = visibleOptions[this.focusedOptionIndex];
       if (option && option.children.length > 0 && !option.expanded) {
         e.preventDefault();
         this.handleExpandToggle(option);
+      } else if (option && option.children.length > 0) {
+        e.preventDefault();
+        // First child is rendered right after its parent
+        this.focusedOptionIndex = this.focusedOptionIndex + 1;
+        this.updateOptionFocus(visibleOptions);
+        this.announceOption(visibleOptions[this.focusedOptionIndex]);
       }
     }
 
-    // Arrow Left - collapse group (if parent)
+    // Arrow Left - collapse group (if parent), or move to the parent group
     if (e.key === 'ArrowLeft' && this.config.nestedOptions) {
       const option = visibleOptions[this.focusedOptionIndex];
       if (option && option.children.length > 0 && option.expanded) {
         e.preventDefault();
         this.handleExpandToggle(option);
+      } else if (option?.parent) {
+        const parentIndex = visibleOptions.findIndex((opt) => opt.value === option.parent);
+        if (parentIndex >= 0) {
+          e.preventDefault();
+          this.focusedOptionIndex = parentIndex;
+          this.updateOptionFocus(visibleOptions);
+          this.announceOption(visibleOptions[this.focusedOptionIndex]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Keyboard navigation on the create row: arrows, Home and End focus it and Enter creates
+   * the option. Returns false when the create row isn't shown or the key isn't handled.
+   */
+  private handleCreateRowNav(e: KeyboardEvent): boolean {
+    const row = this.optionsList?.querySelector<HTMLElement>('.ms-multiselect__create');
+    if (!row || !this.canCreateOption()) return false;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.handleCreate();
+      return true;
+    }
+
+    if (['ArrowDown', 'ArrowUp', 'Home', 'End'].includes(e.key)) {
+      e.preventDefault();
+      this.focusedOptionIndex = 0;
+      addClass(row, 'ms-multiselect__create--focused');
+      // DOM focus stays in the token input, point it at the create row
+      if (this.config.selectedDisplayMode === 'tokens') {
+        row.id = row.id || uniqueId('ms-option');
+        this.searchInput?.setAttribute('aria-activedescendant', row.id);
       }
+      this.announce(row.textContent ?? '');
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Add a printable key to the type-ahead buffer, which resets after typeaheadTimeout.
+   * Only used when search is disabled; returns false for keys that are not type-ahead.
+   */
+  private appendTypeahead(e: KeyboardEvent): boolean {
+    if (this.config.searchEnabled || this.config.selectedDisplayMode === 'tokens') return false;
+    if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return false;
+    // Space selects the focused option unless it continues a typed word
+    if (e.key === ' ' && !this.typeaheadBuffer) return false;
+
+    e.preventDefault();
+    this.typeaheadBuffer += e.key;
+    if (this.typeaheadTimer) clearTimeout(this.typeaheadTimer);
+    this.typeaheadTimer = setTimeout(() => {
+      this.typeaheadBuffer = '';
+      this.typeaheadTimer = null;
+    }, this.config.typeaheadTimeout);
+    return true;
+  }
+
+  /**
+   * Type-ahead in the open list: focus the next option starting with the typed text
+   */
+  private handleTypeahead(e: KeyboardEvent): boolean {
+    if (!this.appendTypeahead(e)) return false;
+
+    const visibleOptions = this.getVisibleOptions();
+    const index = findTypeaheadIndex(
+      visibleOptions,
+      this.typeaheadBuffer,
+      this.focusedOptionIndex,
+      this.getNormalizeOptions()
+    );
+    if (index >= 0) {
+      this.focusedOptionIndex = index;
+      this.updateOptionFocus(visibleOptions);
+      this.announceOption(visibleOptions[index]);
     }
+    return true;
   }
 
   /**
    * Get visible options (considering search filter)
    */
-  private getVisibleOptions(): OptionData[] {
-    const dataToUse = this.filteredData ?? this.optionData;
+  private getVisibleOptions(dataToUse = this.filteredData ?? this.optionData): OptionData[] {
     const visible: OptionData[] = [];
 
     dataToUse.forEach((option) => {
       visible.push(option);
       if (this.config.nestedOptions && option.expanded && option.children.length > 0) {
-        option.children.forEach((child) => visible.push(child));
+        // Tree search shows only the matching branches
+        const children = this.searchVisible
+          ? option.children.filter((child) => this.searchVisible?.has(child.value))
+          : option.children;
+        visible.push(...this.getVisibleOptions(children));
       }
     });
 
     return visible;
   }
 
+  /**
+   * Patch rendered rows to match the visible options, re-rendering only new and changed rows
+   */
+  private patchOptionRows(changedValues: Set<string>): void {
+    const list = this.optionsList;
+    if (!list) return;
+
+    // Keep focus on the same option as rows shift around it
+    const rendered = Array.from(list.querySelectorAll<HTMLElement>('.ms-multiselect__option'));
+    const previousRows = this.config.virtualScroll
+      ? this.virtualRows.map((option) => option.value)
+      : rendered.map((optionEl) => optionEl.getAttribute('data-value'));
+    const focusedValue = previousRows[this.focusedOptionIndex];
+    const rows = this.getVisibleOptions();
+    this.focusedOptionIndex = rows.findIndex((option) => option.value === focusedValue);
+
+    // Virtual rows are positional and status/empty messages replace the list, so re-render
+    if (this.config.virtualScroll || rendered.length === 0 || rows.length === 0) {
+      this.renderOptions(list, this.filteredData ?? undefined);
+      return;
+    }
+
+    const existing = new Map(
+      rendered.map((optionEl) => [optionEl.getAttribute('data-value'), optionEl])
+    );
+    let previous: HTMLElement | null = null;
+
+    rows.forEach((option, index) => {
+      let optionEl = existing.get(option.value);
+      existing.delete(option.value);
+
+      if (!optionEl || changedValues.has(option.value)) {
+        const freshEl = this.renderOption(option);
+        optionEl?.replaceWith(freshEl);
+        optionEl = freshEl;
+      }
+      toggleClass(optionEl, 'ms-multiselect__option--focused', index === this.focusedOptionIndex);
+
+      const expected = previous ? previous.nextElementSibling : list.firstElementChild;
+      if (expected !== optionEl) {
+        if (previous) {
+          previous.after(optionEl);
+        } else {
+          list.prepend(optionEl);
+        }
+      }
+      previous = optionEl;
+    });
+
+    existing.forEach((optionEl) => {
+      optionEl.remove();
+    });
+  }
+
   /**
    * Update visual focus on option
    */
   private updateOptionFocus(visibleOptions: OptionData[]): void {
     if (!this.optionsList) return;
 
+    // Virtual scroll: make sure the focused row is mounted before styling it
+    const virtual = this.config.virtualScroll && this.virtualRows.length > 0;
+    if (virtual && this.focusedOptionIndex >= 0) {
+      this.scrollToVirtualIndex(this.focusedOptionIndex);
+    }
+
     // Remove focus class from all
     const allOptions = this.optionsList.querySelectorAll('.ms-multiselect__option');
     allOptions.forEach((el) => {
       el.classList.remove('ms-multiselect__option--focused');
     });
+    const tokens = this.config.selectedDisplayMode === 'tokens';
+    if (tokens) {
+      this.searchInput?.removeAttribute('aria-activedescendant');
+    }
 
     // Add focus class to current
     if (this.focusedOptionIndex >= 0 && this.focusedOptionIndex < visibleOptions.length) {
@@ -1179,8 +2740,13 @@ export class MultiSelect implements MultiSelectInstance {
         );
         if (optionEl) {
           optionEl.classList.add('ms-multiselect__option--focused');
+          // DOM focus stays in the token input, point it at the highlighted option
+          if (tokens) {
+            optionEl.id = optionEl.id || uniqueId('ms-option');
+            this.searchInput?.setAttribute('aria-activedescendant', optionEl.id);
+          }
           // scrollIntoView may not be available in test environment (JSDOM)
-          if (typeof optionEl.scrollIntoView === 'function') {
+          if (!virtual && typeof optionEl.scrollIntoView === 'function') {
             optionEl.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
           }
         }
@@ -1235,7 +2801,7 @@ export class MultiSelect implements MultiSelectInstance {
           this.selectedValues = this.selectedValues.filter((v) => v !== value);
 
           // Sync with native select
-          syncNativeSelect(this.selectElement, this.selectedValues);
+          this.syncSelectionToNative();
 
           // Update UI
           this.updateTriggerText();
@@ -1252,6 +2818,166 @@ export class MultiSelect implements MultiSelectInstance {
     }
   }
 
+  /**
+   * Handle keyboard in the token field (inline input and focused tags)
+   */
+  private handleTokenKeydown(e: KeyboardEvent): void {
+    const input = this.searchInput;
+    if (!input || !this.trigger) return;
+
+    const target = e.target as HTMLElement;
+    const tags = Array.from(this.trigger.querySelectorAll<HTMLElement>('.ms-multiselect__tag'));
+
+    if (target === input) {
+      const lastTag = tags[tags.length - 1];
+
+      // Backspace on an empty input removes the last tag
+      if (e.key === 'Backspace' && input.value === '' && lastTag) {
+        e.preventDefault();
+        this.removeToken(lastTag.getAttribute('data-value'));
+        return;
+      }
+
+      // Arrow Left at the start of the input moves into the tags
+      if (e.key === 'ArrowLeft' && input.selectionStart === 0 && input.selectionEnd === 0) {
+        if (lastTag) {
+          e.preventDefault();
+          lastTag.focus();
+        }
+        return;
+      }
+
+      if (!this._isOpen && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+        e.preventDefault();
+        this.open();
+        return;
+      }
+
+      // Arrows and Enter drive the open list while typing
+      this.handleKeyboardNav(e);
+      return;
+    }
+
+    const tag = target.closest<HTMLElement>('.ms-multiselect__tag');
+    if (!tag) return;
+    const index = tags.indexOf(tag);
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        tags[index - 1]?.focus();
+        break;
+
+      case 'ArrowRight':
+        e.preventDefault();
+        (tags[index + 1] ?? input).focus();
+        break;
+
+      case 'Backspace':
+      case 'Delete': {
+        e.preventDefault();
+        this.removeToken(tag.getAttribute('data-value'));
+
+        // Keep focus next to the removed tag (tags are re-rendered)
+        const remaining = this.trigger.querySelectorAll<HTMLElement>('.ms-multiselect__tag');
+        const nextIndex = e.key === 'Backspace' ? index - 1 : index;
+        (remaining[Math.max(nextIndex, 0)] ?? input).focus();
+        break;
+      }
+    }
+  }
+
+  /**
+   * Deselect the option behind a token
+   */
+  private removeToken(value: string | null): void {
+    if (value === null) return;
+    const option = NestedOptions.findOption(this.optionData, value);
+    if (option?.selected) {
+      this.handleOptionClick(option);
+    }
+  }
+
+  /**
+   * Watch the native select for changes made outside the component
+   */
+  private observeSelect(): void {
+    this.selectObserver = new MutationObserver((records) => {
+      this.handleSelectMutations(records);
+    });
+    this.selectObserver.observe(this.selectElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['disabled', 'selected', 'label', 'required'],
+    });
+    this.syncSelectState();
+  }
+
+  /**
+   * Reconcile with changes made to the native select outside the component
+   */
+  private handleSelectMutations(records: MutationRecord[]): void {
+    this.syncSelectState();
+
+    // Once selectedness has been set through the property, the attribute no longer
+    // drives it, so apply selected attribute changes explicitly
+    records.forEach((record) => {
+      if (record.attributeName === 'selected' && record.target instanceof HTMLOptionElement) {
+        record.target.selected = record.target.hasAttribute('selected');
+      }
+    });
+
+    // Remote options don't come from the native select
+    const optionsChanged = records.some(
+      (record) => record.target !== this.selectElement || record.type === 'childList'
+    );
+    if (optionsChanged && !this.config.load) {
+      this.syncOptionsFromNative();
+    }
+  }
+
+  /**
+   * Sync disabled and required state from the native select
+   */
+  private syncSelectState(): void {
+    const triggerDisabled = Boolean(this.trigger?.hasAttribute('disabled'));
+    if (this.selectElement.disabled !== triggerDisabled) {
+      if (this.selectElement.disabled) {
+        this.disable();
+      } else {
+        this.enable();
+      }
+    }
+
+    if (this.selectElement.required) {
+      this.trigger?.setAttribute('aria-required', 'true');
+    } else {
+      this.trigger?.removeAttribute('aria-required');
+    }
+  }
+
+  /**
+   * Re-parse options from the native select, keeping expanded groups, search filter and focus
+   */
+  private syncOptionsFromNative(): void {
+    const expandedState = new Map(
+      NestedOptions.flattenOptions(this.optionData).map((option) => [option.value, option.expanded])
+    );
+
+    this.parseOptions();
+    NestedOptions.flattenOptions(this.optionData).forEach((option) => {
+      option.expanded = expandedState.get(option.value) ?? option.expanded;
+    });
+
+    // Selection was read from the native select, so no change event is emitted
+    this.commitOptionChanges(
+      new Set(NestedOptions.getAllValues(this.optionData)),
+      this.selectedValues
+    );
+  }
+
   /**
    * Hide original select element
    */
@@ -1285,13 +3011,19 @@ export class MultiSelect implements MultiSelectInstance {
    * Set selected values programmatically
    */
   public setValue(values: string[]): void {
-    this.selectedValues = [...values];
-    syncNativeSelect(this.selectElement, this.selectedValues);
+    // Values past maxSelections are dropped
+    const max = this.config.maxSelections;
+    this.selectedValues = max === null ? [...values] : values.slice(0, max);
 
     // Update option data
     NestedOptions.flattenOptions(this.optionData).forEach((option) => {
       option.selected = this.selectedValues.includes(option.value);
     });
+    if (this.config.nestedOptions) {
+      NestedOptions.updateAllParentStates(this.optionData);
+    }
+
+    this.syncSelectionToNative();
 
     // Update existing DOM elements if dropdown is open
     if (this.optionsList) {
@@ -1313,6 +3045,12 @@ export class MultiSelect implements MultiSelectInstance {
           const checkbox = optionEl.querySelector<HTMLInputElement>('.ms-multiselect__checkbox')!;
           if (checkbox) {
             checkbox.checked = option.selected;
+            checkbox.indeterminate = option.indeterminate;
+            toggleClass(
+              checkbox.parentElement!,
+              'ms-multiselect__checkbox-label--indeterminate',
+              option.indeterminate
+            );
           }
         }
       });
@@ -1330,7 +3068,13 @@ export class MultiSelect implements MultiSelectInstance {
       ? NestedOptions.getLeafOptions(this.optionData).map((opt) => opt.value)
       : this.optionData.map((opt) => opt.value);
 
-    this.setValue(allValues);
+    // Keep the current selection first so maxSelections only drops unselected options
+    const selected = new Set(this.selectedValues);
+    this.setValue(
+      this.config.maxSelections === null
+        ? allValues
+        : [...this.selectedValues, ...allValues.filter((value) => !selected.has(value))]
+    );
   }
 
   /**
@@ -1366,6 +3110,9 @@ export class MultiSelect implements MultiSelectInstance {
     this._isOpen = true;
     removeClass(this.dropdown!, 'ms-multiselect__dropdown--hidden');
     this.trigger?.setAttribute('aria-expanded', 'true');
+    if (this.config.selectedDisplayMode === 'tokens') {
+      this.searchInput?.setAttribute('aria-expanded', 'true');
+    }
     addClass(this.trigger!, 'ms-multiselect__trigger--open');
     this.dropdown?.setAttribute('aria-hidden', 'false');
 
@@ -1383,10 +3130,20 @@ export class MultiSelect implements MultiSelectInstance {
     // Always start with no option focused - user navigates with keyboard
     this.focusedOptionIndex = -1;
 
+    // Fetch remote options for the current query if not loaded yet
+    const tooShort = this.getMissingQueryLength(this.searchQuery) > 0;
+    if (this.config.load && this.loadedQuery !== this.searchQuery && !tooShort) {
+      this.loadRemoteOptions(this.searchQuery);
+    } else {
+      this.fillRemoteList();
+    }
+
     // Announce to screen readers
     const optionCount = this.getVisibleOptions().length;
     this.announce(
-      `Dropdown opened. ${String(optionCount)} option${optionCount === 1 ? '' : 's'} available.`
+      tooShort
+        ? `Dropdown opened. ${this.getStatusMessage('too-short')}`
+        : `Dropdown opened. ${String(optionCount)} option${optionCount === 1 ? '' : 's'} available.`
     );
 
     this.emitEvent('multiselect:open');
@@ -1401,6 +3158,10 @@ export class MultiSelect implements MultiSelectInstance {
     this._isOpen = false;
     addClass(this.dropdown!, 'ms-multiselect__dropdown--hidden');
     this.trigger?.setAttribute('aria-expanded', 'false');
+    if (this.config.selectedDisplayMode === 'tokens') {
+      this.searchInput?.setAttribute('aria-expanded', 'false');
+      this.searchInput?.removeAttribute('aria-activedescendant');
+    }
     removeClass(this.trigger!, 'ms-multiselect__trigger--open');
     this.dropdown?.setAttribute('aria-hidden', 'true');
 
@@ -1417,6 +3178,8 @@ export class MultiSelect implements MultiSelectInstance {
       this.searchInput.value = '';
       this.searchQuery = '';
       this.filteredData = null;
+      this.endTreeSearch();
+      this.abortRemoteLoad();
       if (this.optionsList) {
         this.renderOptions(this.optionsList);
       }
@@ -1427,7 +3190,9 @@ export class MultiSelect implements MultiSelectInstance {
 
     // Focus management based on config
     // Use setTimeout to ensure focus happens after any pending blur operations
+    // Token field: focus stays in the input
     setTimeout(() => {
+      if (this.config.selectedDisplayMode === 'tokens') return;
       if (this.config.returnFocusOnClose) {
         // Return focus to trigger button
         this.trigger?.focus();
@@ -1472,7 +3237,10 @@ export class MultiSelect implements MultiSelectInstance {
     }
 
     // Calculate height for search and footer
-    const searchHeight = this.searchInput?.parentElement?.offsetHeight ?? 0;
+    const searchHeight =
+      this.config.selectedDisplayMode === 'tokens'
+        ? 0
+        : (this.searchInput?.parentElement?.offsetHeight ?? 0);
     const footerHeight = this.footer?.offsetHeight ?? 0;
     const reservedHeight = searchHeight + footerHeight;
 
@@ -1528,10 +3296,180 @@ export class MultiSelect implements MultiSelectInstance {
     }
   }
 
+  /**
+   * Set data - replace all options (and the native select's options) with new data
+   */
+  public setData(data: OptionInput[]): void {
+    this.builtFromData = true;
+    buildNativeOptions(this.selectElement, data);
+    this.selectObserver?.takeRecords();
+    this.parseOptions();
+    this.updateTriggerText();
+
+    // Re-apply an active local search to the new options
+    this.filteredData =
+      this.searchQuery && !this.config.load ? this.searchOptions(this.searchQuery) : null;
+    this.focusedOptionIndex = -1;
+
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+    }
+  }
+
+  /**
+   * Add options at root level or under a parent option
+   */
+  public addOptions(options: OptionInput[], position: OptionInsertPosition = {}): void {
+    // Without nested options every option lives at root level
+    const parentValue = this.config.nestedOptions ? position.parent : undefined;
+    const parent =
+      parentValue === undefined ? null : NestedOptions.findOption(this.optionData, parentValue);
+    if (parentValue !== undefined && !parent) return;
+
+    // Values must stay unique
+    const existing = new Set(NestedOptions.getAllValues(this.optionData));
+    const inputs = options.filter((input) => !existing.has(input.value));
+    if (inputs.length === 0) return;
+
+    const previousValues = this.selectedValues;
+    const added = this.createOptions(inputs, parent);
+    NestedOptions.insertOptions(this.optionData, added, parent, position.index);
+    NestedOptions.insertNativeOptions(this.selectElement, this.optionData, added, parent);
+
+    // The parent row may gain an expand icon or change checkbox state
+    const changedValues = new Set<string>();
+    if (parent) {
+      NestedOptions.getLeafOptions(added).forEach((leaf) => {
+        NestedOptions.updateParentState(leaf, this.optionData);
+      });
+      [...NestedOptions.getParentChain(parent, this.optionData), parent].forEach((option) => {
+        changedValues.add(option.value);
+      });
+    }
+
+    this.commitOptionChanges(changedValues, previousValues);
+  }
+
+  /**
+   * Remove options (and their children) by value
+   */
+  public removeOptions(values: string[]): void {
+    const previousValues = this.selectedValues;
+    const changedValues = new Set<string>();
+
+    values.forEach((value) => {
+      const option = NestedOptions.findOption(this.optionData, value);
+      if (!option) return;
+
+      NestedOptions.removeOption(this.optionData, option);
+      NestedOptions.removeNativeOptions(this.selectElement, option);
+
+      // Parent rows may lose their expand icon or change checkbox state
+      if (this.config.nestedOptions) {
+        NestedOptions.updateParentState(option, this.optionData);
+        NestedOptions.getParentChain(option, this.optionData).forEach((parent) => {
+          changedValues.add(parent.value);
+        });
+      }
+    });
+
+    this.commitOptionChanges(changedValues, previousValues);
+  }
+
+  /**
+   * Update text, description, icon, disabled/selected state or metadata of an option
+   * (metadata is merged)
+   */
+  public updateOption(value: string, patch: OptionPatch): void {
+    const option = NestedOptions.findOption(this.optionData, value);
+    if (!option) return;
+
+    const previousValues = this.selectedValues;
+    const changedValues = new Set([option.value]);
+    const nativeOption = NestedOptions.findNativeElement(this.selectElement, option);
+
+    if (patch.text !== undefined) {
+      option.text = patch.text;
+      option.label = patch.text;
+      if (nativeOption instanceof HTMLOptGroupElement) {
+        // Keep the group's value when re-parsed, it would otherwise follow the label
+        nativeOption.label = patch.text;
+        nativeOption.dataset.value = option.value;
+      } else if (nativeOption) {
+        nativeOption.text = patch.text;
+      }
+    }
+
+    if (patch.disabled !== undefined) {
+      option.disabled = patch.disabled;
+      if (nativeOption) {
+        nativeOption.disabled = patch.disabled;
+      }
+    }
+
+    if (patch.description !== undefined) {
+      option.description = patch.description;
+      if (nativeOption) {
+        nativeOption.dataset.description = patch.description;
+      }
+    }
+
+    if (patch.icon !== undefined) {
+      option.icon = patch.icon;
+      if (nativeOption) {
+        nativeOption.dataset.icon = patch.icon;
+      }
+    }
+
+    if (patch.meta !== undefined) {
+      option.meta = { ...option.meta, ...patch.meta };
+      if (nativeOption) {
+        Object.assign(nativeOption.dataset, patch.meta);
+      }
+    }
+
+    if (patch.selected !== undefined && patch.selected !== option.selected) {
+      const cascade = this.config.nestedOptions && this.config.cascadeSelection;
+      if (patch.selected) {
+        NestedOptions.selectWithCascade(option, this.optionData, cascade);
+      } else {
+        NestedOptions.deselectWithCascade(option, this.optionData, cascade);
+      }
+
+      // Selection can change descendants (cascade) and ancestors (parent state)
+      [
+        ...NestedOptions.getParentChain(option, this.optionData),
+        ...NestedOptions.getChildOptions(option),
+      ].forEach((related) => {
+        changedValues.add(related.value);
+      });
+    }
+
+    this.commitOptionChanges(changedValues, previousValues);
+  }
+
+  /**
+   * Enable or disable an option
+   */
+  public setOptionDisabled(value: string, disabled: boolean): void {
+    this.updateOption(value, { disabled });
+  }
+
   /**
    * Destroy instance
    */
   public destroy(): void {
+    // Cancel pending remote request
+    this.abortRemoteLoad();
+
+    // Stop watching the native select
+    this.selectObserver?.disconnect();
+    this.selectObserver = null;
+
+    if (this.typeaheadTimer) clearTimeout(this.typeaheadTimer);
+    this.searchWorker?.terminate();
+    this.searchWorker = null;
+
     // Remove event listeners
     this.eventHandlers.forEach((handler, key) => {
       if (key === 'window:resize') {
@@ -1550,6 +3488,11 @@ export class MultiSelect implements MultiSelectInstance {
     // Remove custom UI
     this.container?.remove();
 
+    // Drop the validity set for selection limits
+    if (this.config.maxSelections !== null || this.config.minSelections > 0) {
+      this.selectElement.setCustomValidity('');
+    }
+
     // Show original select
     this.selectElement.style.display = '';
     this.selectElement.removeAttribute('aria-hidden');
@@ -1565,6 +3508,9 @@ export class MultiSelect implements MultiSelectInstance {
    */
   public enable(): void {
     this.trigger?.removeAttribute('disabled');
+    if (this.config.selectedDisplayMode === 'tokens' && this.searchInput) {
+      this.searchInput.disabled = false;
+    }
     this.selectElement.disabled = false;
   }
 
@@ -1573,6 +3519,9 @@ export class MultiSelect implements MultiSelectInstance {
    */
   public disable(): void {
     this.trigger?.setAttribute('disabled', 'true');
+    if (this.config.selectedDisplayMode === 'tokens' && this.searchInput) {
+      this.searchInput.disabled = true;
+    }
     this.selectElement.disabled = true;
     if (this._isOpen) {
       this.close();
@@ -1615,7 +3564,10 @@ export class MultiSelect implements MultiSelectInstance {
       option.expanded = true;
 
       // Update DOM if options list exists
-      if (this.optionsList) {
+      if (this.optionsList && this.config.virtualScroll) {
+        // Virtual rows are positional, so rebuild the window
+        this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      } else if (this.optionsList) {
         const parentEl = this.optionsList.querySelector(`[data-value="${option.value}"]`);
         if (parentEl) {
           // Update aria-expanded
@@ -1628,9 +3580,9 @@ export class MultiSelect implements MultiSelectInstance {
             addClass(expandIcon as HTMLElement, 'ms-multiselect__expand-icon--expanded');
           }
 
-          // Render and insert children after parent
+          // Render and insert children (and expanded descendants) after parent
           let insertAfter: Element = parentEl;
-          option.children.forEach((child) => {
+          this.getVisibleOptions(option.children).forEach((child) => {
             const childEl = this.renderOption(child);
             insertAfter.insertAdjacentElement('afterend', childEl);
             insertAfter = childEl;
@@ -1659,7 +3611,10 @@ export class MultiSelect implements MultiSelectInstance {
       option.expanded = false;
 
       // Update DOM if options list exists
-      if (this.optionsList) {
+      if (this.optionsList && this.config.virtualScroll) {
+        // Virtual rows are positional, so rebuild the window
+        this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      } else if (this.optionsList) {
         const parentEl = this.optionsList.querySelector(`[data-value="${option.value}"]`);
         if (parentEl) {
           // Update aria-expanded
@@ -1672,8 +3627,8 @@ export class MultiSelect implements MultiSelectInstance {
             removeClass(expandIcon as HTMLElement, 'ms-multiselect__expand-icon--expanded');
           }
 
-          // Remove children from DOM
-          option.children.forEach((child) => {
+          // Remove descendants from DOM
+          NestedOptions.getChildOptions(option).forEach((child) => {
             const childEl = this.optionsList?.querySelector(`[data-value="${child.value}"]`);
             if (childEl) {
               childEl.remove();
@@ -1706,7 +3661,7 @@ export class MultiSelect implements MultiSelectInstance {
     });
   }
 
-  private emitEvent(eventName: string, detail?: MultiSelectEventDetail): void {
+  private emitEvent(eventName: string, detail?: MultiSelectEventDetail): boolean {
     const event = new CustomEvent(eventName, {
       detail: detail ?? {
         values: this.selectedValues,
@@ -1716,7 +3671,7 @@ export class MultiSelect implements MultiSelectInstance {
       bubbles: true,
       cancelable: true,
     });
-    this.selectElement.dispatchEvent(event);
+    return this.selectElement.dispatchEvent(event);
   }
 
   /* ===========================
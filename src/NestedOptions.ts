@@ -1,4 +1,5 @@
-import type { OptionData } from './types';
+import type { OptionData, OptionInput, OptionMeta } from './types';
+import { createNativeOptions, findNativeOption } from './utils';
 
 /**
  * Parse native select element into hierarchical option tree
@@ -21,6 +22,8 @@ function parseFlatOptions(selectElement: HTMLSelectElement): OptionData[] {
     value: option.value,
     text: option.text,
     label: option.text,
+    description: option.dataset.description ?? null,
+    icon: option.dataset.icon ?? null,
     disabled: option.disabled,
     selected: option.selected,
     parent: null,
@@ -28,74 +31,307 @@ function parseFlatOptions(selectElement: HTMLSelectElement): OptionData[] {
     level: 0,
     expanded: false,
     indeterminate: false,
+    meta: parseOptionMeta(option),
   }));
 }
 
+// data-* attributes with a dedicated meaning rather than metadata
+const RESERVED_DATA_KEYS = ['parent', 'description', 'icon', 'value'];
+
+/**
+ * Read option metadata from data-* attributes
+ */
+function parseOptionMeta(element: HTMLElement): OptionMeta {
+  const meta: OptionMeta = {};
+  Object.entries(element.dataset).forEach(([key, value]) => {
+    if (!RESERVED_DATA_KEYS.includes(key) && value !== undefined) {
+      meta[key] = value;
+    }
+  });
+  return meta;
+}
+
 /**
- * Parse nested options with optgroup support
+ * Parse nested options from optgroups and data-parent attributes (any depth)
  */
 function parseNestedOptions(selectElement: HTMLSelectElement): OptionData[] {
-  const optionTree: OptionData[] = [];
+  const nodes = new Map<string, OptionData>();
+  // Candidate parent values per option, in order of preference
+  const parentCandidates = new Map<OptionData, string[]>();
+
+  const createNode = (
+    value: string,
+    text: string,
+    disabled: boolean,
+    selected: boolean,
+    element: HTMLElement
+  ): OptionData => {
+    const node: OptionData = {
+      value,
+      text,
+      label: text,
+      description: element.dataset.description ?? null,
+      icon: element.dataset.icon ?? null,
+      disabled,
+      selected,
+      parent: null,
+      children: [],
+      level: 0,
+      expanded: false,
+      indeterminate: false,
+      meta: parseOptionMeta(element),
+    };
+    nodes.set(value, node);
+    return node;
+  };
+
+  const addOption = (option: HTMLOptionElement, groupValue: string | null): void => {
+    const node = createNode(option.value, option.text, option.disabled, option.selected, option);
+    const candidates = [option.dataset.parent, groupValue].filter(
+      (value): value is string => value !== undefined && value !== null
+    );
+    parentCandidates.set(node, candidates);
+  };
 
   Array.from(selectElement.children).forEach((child) => {
     if (child.tagName === 'OPTGROUP') {
-      // Create parent group from optgroup
+      // Create parent group from optgroup (groups built from data carry their value)
       const optgroup = child as HTMLOptGroupElement;
-      const parentOption: OptionData = {
-        value: `__group_${optgroup.label}`,
-        text: optgroup.label,
-        label: optgroup.label,
-        disabled: optgroup.disabled,
-        selected: false,
-        parent: null,
-        children: [],
-        level: 0,
-        expanded: false,
-        indeterminate: false,
-      };
-
-      // Parse children options
-      Array.from(optgroup.children).forEach((child) => {
-        if (child instanceof HTMLOptionElement) {
-          const childOption: OptionData = {
-            value: child.value,
-            text: child.text,
-            label: child.text,
-            disabled: child.disabled,
-            selected: child.selected,
-            parent: parentOption.value,
-            children: [],
-            level: 1,
-            expanded: false,
-            indeterminate: false,
-          };
-          parentOption.children.push(childOption);
+      const group = createNode(
+        optgroup.dataset.value ?? `__group_${optgroup.label}`,
+        optgroup.label,
+        optgroup.disabled,
+        false,
+        optgroup
+      );
+      parentCandidates.set(group, []);
+
+      Array.from(optgroup.children).forEach((option) => {
+        if (option instanceof HTMLOptionElement) {
+          addOption(option, group.value);
         }
       });
+    } else if (child instanceof HTMLOptionElement) {
+      addOption(child, null);
+    }
+  });
 
-      optionTree.push(parentOption);
-    } else if (child.tagName === 'OPTION') {
-      // Standalone option (not in optgroup)
-      const option = child as HTMLOptionElement;
-      const optionData: OptionData = {
-        value: option.value,
-        text: option.text,
-        label: option.text,
-        disabled: option.disabled,
-        selected: option.selected,
-        parent: null,
-        children: [],
-        level: 0,
-        expanded: false,
-        indeterminate: false,
-      };
-      optionTree.push(optionData);
+  // Resolve parents once every option is known (a parent may come later in the markup)
+  const parents = new Map<OptionData, OptionData>();
+  parentCandidates.forEach((candidates, node) => {
+    const parent = candidates
+      .map((value) => nodes.get(value))
+      .find((candidate) => candidate !== undefined && candidate !== node);
+    if (parent) {
+      parents.set(node, parent);
     }
   });
 
+  // Break cycles (options declaring each other as parent) by keeping them at root level
+  parents.forEach((_parent, node) => {
+    const visited = new Set<OptionData>();
+    let ancestor = parents.get(node);
+    while (ancestor && !visited.has(ancestor)) {
+      if (ancestor === node) {
+        parents.delete(node);
+        return;
+      }
+      visited.add(ancestor);
+      ancestor = parents.get(ancestor);
+    }
+  });
+
+  const optionTree: OptionData[] = [];
+  parentCandidates.forEach((_candidates, node) => {
+    const parent = parents.get(node);
+    if (parent) {
+      node.parent = parent.value;
+      parent.children.push(node);
+    } else {
+      optionTree.push(node);
+    }
+  });
+
+  setLevels(optionTree, 0);
   return optionTree;
 }
 
+/**
+ * Set nesting level of options recursively
+ */
+function setLevels(options: OptionData[], level: number): void {
+  options.forEach((option) => {
+    option.level = level;
+    setLevels(option.children, level + 1);
+  });
+}
+
+/**
+ * Create option tree from plain option definitions
+ */
+export function createOptionTree(
+  inputs: OptionInput[],
+  parent: string | null = null,
+  level = 0
+): OptionData[] {
+  return inputs.map((input) => {
+    const option: OptionData = {
+      value: input.value,
+      text: input.text,
+      label: input.text,
+      description: input.description ?? null,
+      icon: input.icon ?? null,
+      disabled: input.disabled ?? false,
+      selected: input.selected ?? false,
+      parent,
+      children: [],
+      level,
+      expanded: false,
+      indeterminate: false,
+      meta: { ...input.meta },
+    };
+    option.children = createOptionTree(input.children ?? [], option.value, level + 1);
+    return option;
+  });
+}
+
+/**
+ * Convert option tree back to plain option definitions
+ */
+export function toOptionInputs(optionTree: OptionData[]): OptionInput[] {
+  return optionTree.map((option) => {
+    const input: OptionInput = {
+      value: option.value,
+      text: option.text,
+      disabled: option.disabled,
+      selected: option.selected,
+      children: toOptionInputs(option.children),
+      meta: { ...option.meta },
+    };
+    if (option.description !== null) {
+      input.description = option.description;
+    }
+    if (option.icon !== null) {
+      input.icon = option.icon;
+    }
+    return input;
+  });
+}
+
+/**
+ * Insert options into the tree under a parent (or at root level) at an index
+ */
+export function insertOptions(
+  optionTree: OptionData[],
+  options: OptionData[],
+  parent: OptionData | null,
+  index?: number
+): void {
+  const siblings = parent ? parent.children : optionTree;
+  const position =
+    index === undefined ? siblings.length : Math.min(Math.max(0, index), siblings.length);
+  siblings.splice(position, 0, ...options);
+}
+
+/**
+ * Remove an option (and its descendants) from the tree
+ */
+export function removeOption(optionTree: OptionData[], option: OptionData): void {
+  const siblings = option.parent
+    ? (findOption(optionTree, option.parent)?.children ?? [])
+    : optionTree;
+  const index = siblings.indexOf(option);
+  if (index !== -1) {
+    siblings.splice(index, 1);
+  }
+}
+
+/**
+ * Get the first or last native element of an option's subtree
+ * (a top-level parent is represented by the <optgroup> around its options)
+ */
+function getNativeElement(
+  selectElement: HTMLSelectElement,
+  option: OptionData,
+  edge: 'first' | 'last'
+): HTMLOptionElement | HTMLOptGroupElement | null {
+  const subtree = [option, ...getChildOptions(option)];
+  if (edge === 'last') {
+    subtree.reverse();
+  }
+
+  let nativeOption: HTMLOptionElement | null = null;
+  for (const candidate of subtree) {
+    nativeOption = findNativeOption(selectElement, candidate.value);
+    if (nativeOption) break;
+  }
+
+  if (!option.parent && option.children.length > 0) {
+    const group = nativeOption?.parentElement;
+    return group instanceof HTMLOptGroupElement ? group : nativeOption;
+  }
+  return nativeOption;
+}
+
+/**
+ * Insert native elements for options already inserted into the tree, next to their siblings
+ */
+export function insertNativeOptions(
+  selectElement: HTMLSelectElement,
+  optionTree: OptionData[],
+  options: OptionData[],
+  parent: OptionData | null
+): void {
+  // Top-level parents get their own <optgroup>, nested options reference their parent
+  const elements = createNativeOptions(toOptionInputs(options), parent?.value ?? null);
+  const first = options[0];
+  if (!first || elements.length === 0) return;
+
+  const siblings = parent ? parent.children : optionTree;
+  const index = siblings.indexOf(first);
+  const previous = siblings[index - 1];
+  const next = siblings[index + options.length];
+  const previousEl = previous ? getNativeElement(selectElement, previous, 'last') : null;
+  const nextEl = next ? getNativeElement(selectElement, next, 'first') : null;
+
+  if (previousEl) {
+    previousEl.after(...elements);
+  } else if (nextEl) {
+    nextEl.before(...elements);
+  } else {
+    selectElement.append(...elements);
+  }
+}
+
+/**
+ * Find the native element of an option: its <option>, or the <optgroup> of a top-level parent
+ */
+export function findNativeElement(
+  selectElement: HTMLSelectElement,
+  option: OptionData
+): HTMLOptionElement | HTMLOptGroupElement | null {
+  if (!option.parent && option.children.length > 0) {
+    return getNativeElement(selectElement, option, 'first');
+  }
+  return findNativeOption(selectElement, option.value);
+}
+
+/**
+ * Remove native elements for an option and its descendants
+ */
+export function removeNativeOptions(selectElement: HTMLSelectElement, option: OptionData): void {
+  [option, ...getChildOptions(option)].forEach((removed) => {
+    const nativeOption = findNativeOption(selectElement, removed.value);
+    const group = nativeOption?.parentElement;
+    nativeOption?.remove();
+
+    // Drop <optgroup> elements left without options
+    if (group instanceof HTMLOptGroupElement && group.children.length === 0) {
+      group.remove();
+    }
+  });
+}
+
 /**
  * Flatten option tree to a flat array (includes all descendants)
  */
@@ -219,10 +455,33 @@ export function updateParentState(option: OptionData, optionTree: OptionData[]):
   const parent = findOption(optionTree, option.parent);
   if (!parent || parent.children.length === 0) return;
 
+  applyParentState(parent);
+
+  // Recursively update grandparents
+  updateParentState(parent, optionTree);
+}
+
+/**
+ * Update checkbox state of every parent in the tree (bottom-up)
+ */
+export function updateAllParentStates(optionTree: OptionData[]): void {
+  optionTree.forEach((option) => {
+    if (option.children.length > 0) {
+      updateAllParentStates(option.children);
+      applyParentState(option);
+    }
+  });
+}
+
+/**
+ * Derive a parent's state from its direct children
+ */
+function applyParentState(parent: OptionData): void {
   const selectedChildren = parent.children.filter((child) => child.selected);
+  const partialChildren = parent.children.filter((child) => child.indeterminate);
   const totalChildren = parent.children.length;
 
-  if (selectedChildren.length === 0) {
+  if (selectedChildren.length === 0 && partialChildren.length === 0) {
     // No children selected
     parent.selected = false;
     parent.indeterminate = false;
@@ -231,13 +490,10 @@ export function updateParentState(option: OptionData, optionTree: OptionData[]):
     parent.selected = true;
     parent.indeterminate = false;
   } else {
-    // Some children selected
+    // Some children selected (or partially selected further down)
     parent.selected = false;
     parent.indeterminate = true;
   }
-
-  // Recursively update grandparents
-  updateParentState(parent, optionTree);
 }
 
 /**
@@ -0,0 +1,177 @@
+import type { SearchStrategy, TextNormalizeOptions } from './types';
+import { normalizeText, fuzzyScore, arraysEqual } from './utils';
+
+/**
+ * Searchable text of one option
+ */
+export interface SearchIndexEntry {
+  /** Option value */
+  value: string;
+  /** Values of the searched fields (text, description, metadata...) */
+  fields: string[];
+}
+
+/**
+ * Normalized search index over option fields
+ */
+export interface SearchIndex {
+  /** Bring the index in line with the options, normalizing only added or changed ones */
+  sync(entries: SearchIndexEntry[]): void;
+  /** Score the indexed options against a query (values of matching options to scores) */
+  search(query: string, strategy: SearchStrategy): Map<string, number>;
+}
+
+/**
+ * Indexed option with its fields normalized once
+ */
+interface IndexedOption {
+  value: string;
+  fields: string[];
+  normalized: string[];
+}
+
+/** Length of the n-grams used to narrow substring searches */
+const GRAM_SIZE = 3;
+
+/**
+ * Distinct n-grams of the given texts
+ */
+function getGrams(texts: string[]): Set<string> {
+  const grams = new Set<string>();
+  texts.forEach((text) => {
+    for (let i = 0; i + GRAM_SIZE <= text.length; i++) {
+      grams.add(text.slice(i, i + GRAM_SIZE));
+    }
+  });
+  return grams;
+}
+
+/**
+ * Normalization options that leave indexed texts and queries as they are
+ */
+const PRE_NORMALIZED: TextNormalizeOptions = { normalize: (text) => text };
+
+/**
+ * Score normalized text against a normalized query, like searchScore()
+ */
+function scoreNormalized(text: string, query: string, strategy: SearchStrategy): number {
+  switch (strategy) {
+    case 'exact':
+      return text === query ? 1 : 0;
+    case 'startsWith':
+      return text.startsWith(query) ? 1 : 0;
+    case 'fuzzy':
+      return fuzzyScore(text, query, PRE_NORMALIZED);
+    case 'contains':
+    default:
+      return text.includes(query) ? 1 : 0;
+  }
+}
+
+/**
+ * Create a search index. Field texts are normalized when indexed, so queries only
+ * normalize the query. Substring strategies look up the options sharing the rarest
+ * n-gram of the query instead of scanning every option.
+ */
+export function createSearchIndex(options: TextNormalizeOptions = {}): SearchIndex {
+  // Options by id, replaced or removed options leave an empty slot until compaction
+  let slots: (IndexedOption | null)[] = [];
+  let emptySlots = 0;
+  const ids = new Map<string, number>();
+  let grams = new Map<string, number[]>();
+
+  const insert = (option: IndexedOption): void => {
+    const id = slots.length;
+    slots.push(option);
+    ids.set(option.value, id);
+    getGrams(option.normalized).forEach((gram) => {
+      const list = grams.get(gram);
+      if (list) {
+        list.push(id);
+      } else {
+        grams.set(gram, [id]);
+      }
+    });
+  };
+
+  const release = (id: number): void => {
+    slots[id] = null;
+    emptySlots += 1;
+  };
+
+  // Rebuild ids and n-gram lists once they mostly point at empty slots
+  const compact = (): void => {
+    const live = slots.filter((option): option is IndexedOption => option !== null);
+    slots = [];
+    emptySlots = 0;
+    ids.clear();
+    grams = new Map();
+    live.forEach(insert);
+  };
+
+  const getCandidates = (query: string, strategy: SearchStrategy): IndexedOption[] => {
+    // A match contains every n-gram of the query, so the shortest list holds all matches
+    if (strategy !== 'fuzzy' && query.length >= GRAM_SIZE) {
+      let shortest: number[] | null = null;
+      for (const gram of getGrams([query])) {
+        const list = grams.get(gram) ?? [];
+        if (!shortest || list.length < shortest.length) {
+          shortest = list;
+        }
+      }
+      return (shortest ?? [])
+        .map((id) => slots[id] ?? null)
+        .filter((option): option is IndexedOption => option !== null);
+    }
+    return slots.filter((option): option is IndexedOption => option !== null);
+  };
+
+  return {
+    sync(entries) {
+      const current = new Set<string>();
+      entries.forEach((entry) => {
+        current.add(entry.value);
+        const id = ids.get(entry.value);
+        const existing = id === undefined ? null : slots[id];
+        if (existing && arraysEqual(existing.fields, entry.fields)) return;
+
+        if (id !== undefined) {
+          release(id);
+        }
+        insert({
+          value: entry.value,
+          fields: entry.fields,
+          normalized: entry.fields.map((field) => normalizeText(field, options)),
+        });
+      });
+
+      ids.forEach((id, value) => {
+        if (!current.has(value)) {
+          release(id);
+          ids.delete(value);
+        }
+      });
+
+      if (emptySlots > ids.size) {
+        compact();
+      }
+    },
+
+    search(query, strategy) {
+      const normalizedQuery = normalizeText(query, options);
+      const scores = new Map<string, number>();
+
+      getCandidates(normalizedQuery, strategy).forEach((option) => {
+        let best = 0;
+        option.normalized.forEach((text) => {
+          best = Math.max(best, scoreNormalized(text, normalizedQuery, strategy));
+        });
+        if (best > 0) {
+          scores.set(option.value, best);
+        }
+      });
+
+      return scores;
+    },
+  };
+}
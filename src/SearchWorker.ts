@@ -0,0 +1,108 @@
+import type { SearchStrategy, TextNormalizeOptions } from './types';
+import type { SearchIndexEntry } from './SearchIndex';
+import { SEARCH_WORKER_SOURCE } from './SearchWorkerSource';
+
+/**
+ * Search engine running in a Web Worker
+ */
+export interface SearchWorker {
+  /** Replace the indexed options */
+  setIndex(entries: SearchIndexEntry[]): void;
+  /** Score the indexed options, resolves null when a newer search superseded this one */
+  search(query: string, strategy: SearchStrategy): Promise<Map<string, number> | null>;
+  /** Stop the worker, pending searches resolve null */
+  terminate(): void;
+}
+
+/**
+ * Messages posted to the worker
+ */
+type SearchWorkerRequest =
+  | { type: 'index'; entries: SearchIndexEntry[]; options: TextNormalizeOptions }
+  | { type: 'search'; seq: number; query: string; strategy: SearchStrategy };
+
+/**
+ * Scores of the matching options, posted back for a search request
+ */
+interface SearchWorkerResponse {
+  seq: number;
+  matches: [string, number][];
+}
+
+/**
+ * Start a search worker normalizing with the given options. Returns null when workers are unavailable (e.g. jsdom, or a
+ * Content Security Policy that blocks blob: workers), so callers search synchronously.
+ */
+export function createSearchWorker(options: TextNormalizeOptions = {}): SearchWorker | null {
+  if (typeof Worker === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    return null;
+  }
+
+  const url = URL.createObjectURL(new Blob([SEARCH_WORKER_SOURCE], { type: 'text/javascript' }));
+
+  let worker: Worker;
+  try {
+    worker = new Worker(url);
+  } catch {
+    URL.revokeObjectURL(url);
+    return null;
+  }
+
+  // Searches are numbered, only the latest one resolves with scores
+  let latestSeq = 0;
+  const pending = new Map<
+    number,
+    { resolve: (scores: Map<string, number> | null) => void; reject: (error: Error) => void }
+  >();
+
+  worker.onmessage = (e: MessageEvent<SearchWorkerResponse>) => {
+    const { seq, matches } = e.data;
+    const request = pending.get(seq);
+    if (!request) return;
+    pending.delete(seq);
+    request.resolve(new Map(matches));
+  };
+
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    pending.forEach((request) => {
+      request.reject(new Error(`Search worker failed: ${e.message}`));
+    });
+    pending.clear();
+  };
+
+  const post = (request: SearchWorkerRequest): void => {
+    worker.postMessage(request);
+  };
+
+  return {
+    setIndex(entries) {
+      post({ type: 'index', entries, options });
+    },
+
+    search(query, strategy) {
+      latestSeq += 1;
+      const seq = latestSeq;
+
+      // Earlier searches can no longer win, settle them now instead of on arrival
+      pending.forEach((request) => {
+        request.resolve(null);
+      });
+      pending.clear();
+
+      return new Promise((resolve, reject) => {
+        pending.set(seq, { resolve, reject });
+        post({ type: 'search', seq, query, strategy });
+      });
+    },
+
+    terminate() {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      pending.forEach((request) => {
+        request.resolve(null);
+      });
+      pending.clear();
+    },
+  };
+}
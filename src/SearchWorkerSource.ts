@@ -0,0 +1,97 @@
+/**
+ * Source of the search worker script, loaded from a blob: URL.
+ *
+ * It is plain JavaScript kept as text so the worker needs no bundler support and no
+ * function source from other modules. Field texts are normalized once when the index
+ * arrives and the query once per search, like createSearchIndex(). The functions below
+ * mirror normalizeText() and fuzzyScore() in utils.ts and scoreNormalized() in
+ * SearchIndex.ts; the worker parity test compares the results with searchScore().
+ */
+export const SEARCH_WORKER_SOURCE = String.raw`'use strict';
+
+function normalizeText(text, options) {
+  let normalized = options.locale ? text.toLocaleLowerCase(options.locale) : text.toLowerCase();
+  normalized = normalized.replace(/ß/g, 'ss').normalize('NFD').replace(/\p{M}/gu, '');
+  if (options.ignorePunctuation) {
+    normalized = normalized.replace(/[\p{P}\p{S}]/gu, '');
+  }
+  if (options.ignoreWhitespace) {
+    normalized = normalized.replace(/\s+/g, '');
+  }
+  return normalized.trim();
+}
+
+function isWordStart(text, index) {
+  return index === 0 || /[\s\-_/.,:;()]/.test(text.charAt(index - 1));
+}
+
+function fuzzyScore(text, query) {
+  if (!query) return 1;
+  if (text === query) return 1;
+  if (text.startsWith(query)) return 0.9;
+
+  const index = text.indexOf(query);
+  if (index > 0) {
+    return isWordStart(text, index) ? 0.8 : 0.7;
+  }
+
+  let points = 0;
+  let first = -1;
+  let previous = -2;
+  for (const char of query) {
+    const position = text.indexOf(char, previous + 1);
+    if (position === -1) return 0;
+
+    points += 1;
+    if (isWordStart(text, position)) points += 1;
+    if (position === previous + 1) points += 1;
+    if (first === -1) first = position;
+    previous = position;
+  }
+
+  const density = query.length / (previous - first + 1);
+  return 0.6 * (points / (3 * query.length)) * (0.5 + 0.5 * density);
+}
+
+function scoreNormalized(text, query, strategy) {
+  switch (strategy) {
+    case 'exact':
+      return text === query ? 1 : 0;
+    case 'startsWith':
+      return text.startsWith(query) ? 1 : 0;
+    case 'fuzzy':
+      return fuzzyScore(text, query);
+    case 'contains':
+    default:
+      return text.includes(query) ? 1 : 0;
+  }
+}
+
+// Options with their normalized field texts
+let index = [];
+let options = {};
+
+self.onmessage = (e) => {
+  const request = e.data;
+  if (request.type === 'index') {
+    options = request.options;
+    index = request.entries.map((entry) => ({
+      value: entry.value,
+      fields: entry.fields.map((field) => normalizeText(field, options)),
+    }));
+    return;
+  }
+
+  const query = normalizeText(request.query, options);
+  const matches = [];
+  index.forEach((entry) => {
+    const best = request.query
+      ? Math.max(0, ...entry.fields.map((field) => scoreNormalized(field, query, request.strategy)))
+      : 1;
+    if (best > 0) {
+      matches.push([entry.value, best]);
+    }
+  });
+  self.postMessage({ seq: request.seq, matches });
+};
+`;
@@ -6,18 +6,44 @@ import type {
   SingleSelectSearchEventDetail,
   SingleSelectClearEventDetail,
   SingleSelectGroupEventDetail,
+  OptionInput,
+  SearchResult,
+  SearchTiming,
+  SearchStatus,
+  TextNormalizeOptions,
+  OptionLoader,
+  OptionLoaderPage,
+  OptionPatch,
+  OptionInsertPosition,
 } from './types';
 import * as NestedOptions from './NestedOptions';
+import * as VirtualScroll from './VirtualScroll';
+import { createSearchIndex } from './SearchIndex';
+import type { SearchIndex, SearchIndexEntry } from './SearchIndex';
+import { createSearchWorker } from './SearchWorker';
+import type { SearchWorker } from './SearchWorker';
 import {
   getSelectedValues,
+  ensureNativeOptions,
+  buildNativeOptions,
+  normalizeLoaderResult,
+  isScrolledNearBottom,
+  createOptionContent,
+  getOptionField,
+  getMatchRanges,
+  findTypeaheadIndex,
+  highlightText,
+  uniqueId,
+  normalizeText,
   createElement,
   addClass,
   removeClass,
   toggleClass,
-  searchMatch,
+  searchScore,
   getDropdownPosition,
   trapFocus,
   debounce,
+  formatSelectedText,
 } from './utils';
 
 /**
@@ -29,6 +55,9 @@ const DEFAULT_CONFIG: SingleSelectConfig = {
   searchPlaceholder: 'Search...',
   searchEnabled: true,
   searchDebounce: 300,
+  typeaheadTimeout: 500,
+  data: null,
+  observe: false,
 
   // Footer Options
   showClose: true,
@@ -43,18 +72,51 @@ const DEFAULT_CONFIG: SingleSelectConfig = {
   returnFocusOnClose: false,
   closeOnSelect: true,
 
+  // Rendering Options
+  renderOption: null,
+  optionTemplate: null,
+
   // Search Options
   searchStrategy: 'contains',
+  locale: null,
+  searchIgnorePunctuation: false,
+  searchIgnoreWhitespace: false,
+  normalize: null,
+  highlightMatches: true,
   clearSearchOnClose: true,
   searchAutoFocus: false,
+  searchFields: ['text', 'description'],
+  searchMetaKeys: [],
+  searchFilter: null,
+  searchMinLength: 0,
+
+  // Remote Options
+  load: null,
+  loadingText: 'Loading...',
+  loadErrorText: 'Failed to load options',
+  loadingMoreText: 'Loading more...',
+
+  // Status Options
+  emptyText: 'No options available',
+  noResultsText: 'No results found',
+  searchMinLengthTextSingular: 'Type {count} more character',
+  searchMinLengthTextPlural: 'Type {count} more characters',
+  renderStatus: null,
 
   // Performance Options
+  virtualScroll: false,
+  virtualItemHeight: 40,
+  searchWorker: false,
   animation: true,
 
   // Single-Select Specific
   showRadioButtons: true,
   allowDeselect: false,
 
+  // Combobox Options
+  combobox: false,
+  allowCustomValue: false,
+
   // Nested Options
   nestedOptions: false,
   expandOnSearch: true,
@@ -64,6 +126,27 @@ const DEFAULT_CONFIG: SingleSelectConfig = {
   expandIconExpanded: '▼',
 };
 
+/**
+ * Number of extra rows rendered above and below the viewport when virtual scrolling
+ */
+const VIRTUAL_OVERSCAN = 5;
+
+/**
+ * Distance in pixels from the bottom of the options list that triggers loading the next page
+ */
+const LOAD_MORE_THRESHOLD = 50;
+
+/**
+ * Status area modifier classes (the empty, loading and error messages keep their classes)
+ */
+const STATUS_CLASSES: Record<SearchStatus, string> = {
+  idle: 'empty',
+  'too-short': 'too-short',
+  searching: 'loading',
+  'no-results': 'empty',
+  error: 'error',
+};
+
 /**
  * SingleSelect class - Single-select dropdown component
  */
@@ -88,8 +171,38 @@ export class SingleSelect implements SingleSelectInstance {
   private optionData: OptionData[] = [];
   private selectedValue: string | null = null;
   private filteredData: OptionData[] | null = null;
+  private builtFromData = false;
   private searchQuery = '';
   private focusedOptionIndex = -1;
+  private searchResults: SearchResult[] = [];
+
+  // Tree search state (options shown for the query and expansion before the search)
+  private searchVisible: Set<string> | null = null;
+  private preSearchExpansion: Map<string, boolean> | null = null;
+
+  // Search engine state (main thread index or worker, and whether options changed since)
+  private searchIndex: SearchIndex | null = null;
+  private searchWorker: SearchWorker | null = null;
+  private searchIndexStale = true;
+
+  // Type-ahead state (keys typed while search is disabled)
+  private typeaheadBuffer = '';
+  private typeaheadTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Virtual scroll state (rows in display order and currently mounted window)
+  private virtualRows: OptionData[] = [];
+  private virtualRange: VirtualScroll.VirtualRange | null = null;
+
+  // Remote loading state
+  private loadController: AbortController | null = null;
+  private loadStatus: 'idle' | 'loading' | 'loading-more' | 'error' = 'idle';
+  private loadedQuery: string | null = null;
+  private loadPage = 1;
+  private loadCursor: string | null = null;
+  private hasMoreResults = false;
+
+  // Observes the native select for outside changes (observe mode)
+  private selectObserver: MutationObserver | null = null;
 
   // Accessibility - Live region for announcements
   private liveRegion: HTMLElement | null = null;
@@ -128,6 +241,9 @@ export class SingleSelect implements SingleSelectInstance {
 
     // Merge config with defaults
     this.config = { ...DEFAULT_CONFIG, ...config };
+    // Deprecated searchMetaKeys are searched like any other searchFields entry
+    // eslint-disable-next-line @typescript-eslint/no-deprecated -- the one place it is read
+    this.config.searchFields = [...this.config.searchFields, ...this.config.searchMetaKeys];
 
     // Initialize
     this.init();
@@ -144,10 +260,18 @@ export class SingleSelect implements SingleSelectInstance {
    * Main initialization method
    */
   private init(): void {
+    if (this.config.data) {
+      this.builtFromData = true;
+      buildNativeOptions(this.selectElement, this.config.data);
+    }
     this.parseOptions();
+    this.createSearchEngine();
     this.createUI();
     this.bindEvents();
     this.hideOriginalSelect();
+    if (this.config.observe) {
+      this.observeSelect();
+    }
     this.storeInstance();
   }
 
@@ -155,10 +279,18 @@ export class SingleSelect implements SingleSelectInstance {
    * Parse options from select element
    */
   private parseOptions(): void {
-    this.optionData = NestedOptions.parseSelectElement(
-      this.selectElement,
-      this.config.nestedOptions
-    );
+    if (this.builtFromData) {
+      // The native select built from data holds the whole tree (top-level parents are
+      // optgroups carrying their value), so outside edits are read back like markup
+      this.optionData = this.prepareOptions(
+        NestedOptions.parseSelectElement(this.selectElement, true)
+      );
+    } else {
+      this.optionData = NestedOptions.parseSelectElement(
+        this.selectElement,
+        this.config.nestedOptions
+      );
+    }
 
     // Set initial expanded state
     if (this.config.nestedOptions && this.config.defaultExpanded) {
@@ -177,6 +309,82 @@ export class SingleSelect implements SingleSelectInstance {
         option.selected = true;
       }
     }
+
+    this.searchIndexStale = true;
+  }
+
+  /**
+   * Create option data from inputs (flattened to leaf options when nested options are disabled)
+   */
+  private createOptions(inputs: OptionInput[], parent: OptionData | null = null): OptionData[] {
+    return this.prepareOptions(
+      NestedOptions.createOptionTree(inputs, parent?.value ?? null, parent ? parent.level + 1 : 0)
+    );
+  }
+
+  /**
+   * Flatten an option tree to leaf options when nested options are disabled
+   */
+  private prepareOptions(tree: OptionData[]): OptionData[] {
+    if (!this.config.nestedOptions) {
+      return NestedOptions.getLeafOptions(tree).map((option) => ({
+        ...option,
+        parent: null,
+        level: 0,
+      }));
+    }
+
+    if (this.config.defaultExpanded) {
+      NestedOptions.expandAll(tree);
+    }
+    return tree;
+  }
+
+  /**
+   * Make an option the only selected option (or clear the selection with null)
+   */
+  private markSelected(option: OptionData | null, changedValues: Set<string>): void {
+    NestedOptions.flattenOptions(this.optionData).forEach((opt) => {
+      if (opt.selected && opt !== option) {
+        opt.selected = false;
+        changedValues.add(opt.value);
+      }
+    });
+
+    if (option) {
+      option.selected = true;
+      changedValues.add(option.value);
+    }
+    // Treat empty string as null
+    this.selectedValue = option && option.value !== '' ? option.value : null;
+  }
+
+  /**
+   * Finish an option mutation: sync selection and search results, then patch the UI
+   */
+  private commitOptionChanges(changedValues: Set<string>, previousValue: string | null): void {
+    this.syncSelectionToNative();
+
+    this.searchIndexStale = true;
+
+    if (this.filteredData) {
+      if (this.searchQuery && !this.config.load) {
+        this.filteredData = this.searchOptions(this.searchQuery);
+      } else {
+        const values = new Set(NestedOptions.getAllValues(this.optionData));
+        this.filteredData = this.filteredData.filter((option) => values.has(option.value));
+      }
+    }
+
+    this.patchOptionRows(changedValues);
+    this.updateTriggerText();
+
+    // Native select changes made here are already reflected in the UI
+    this.selectObserver?.takeRecords();
+
+    if (previousValue !== this.selectedValue) {
+      this.emitChangeEvent();
+    }
   }
 
   /**
@@ -200,9 +408,11 @@ export class SingleSelect implements SingleSelectInstance {
     this.dropdown = this.createDropdown();
     this.container.appendChild(this.dropdown);
 
-    // Link trigger to dropdown via aria-controls
+    // Link trigger to dropdown via aria-controls (a combobox controls the listbox itself)
     if (this.trigger && this.dropdown) {
-      const dropdownId = this.dropdown.getAttribute('id');
+      const dropdownId = this.config.combobox
+        ? (this.optionsList?.getAttribute('id') ?? null)
+        : this.dropdown.getAttribute('id');
       if (dropdownId) {
         this.trigger.setAttribute('aria-controls', dropdownId);
       }
@@ -219,6 +429,20 @@ export class SingleSelect implements SingleSelectInstance {
    * Create trigger button
    */
   private createTrigger(): HTMLElement {
+    // Combobox mode: the trigger is a text input that filters the options (WAI-ARIA combobox)
+    if (this.config.combobox) {
+      return createElement('input', 'ss-singleselect__trigger ss-singleselect__trigger--combobox', {
+        type: 'text',
+        role: 'combobox',
+        placeholder: this.config.placeholder,
+        autocomplete: 'off',
+        'aria-autocomplete': 'list',
+        'aria-haspopup': 'listbox',
+        'aria-expanded': 'false',
+        'aria-label': 'Single-select combobox',
+      });
+    }
+
     const trigger = createElement('button', 'ss-singleselect__trigger', {
       type: 'button',
       'aria-haspopup': 'listbox',
@@ -253,14 +477,15 @@ export class SingleSelect implements SingleSelectInstance {
       }
     );
 
-    // Add search if enabled
-    if (this.config.searchEnabled) {
+    // Add search if enabled (the combobox input searches instead)
+    if (this.config.searchEnabled && !this.config.combobox) {
       const searchContainer = this.renderSearch();
       dropdown.appendChild(searchContainer);
     }
 
     // Add options list
     this.optionsList = this.renderOptionsList();
+    this.optionsList.id = `${dropdownId}-listbox`;
     dropdown.appendChild(this.optionsList);
 
     // Add footer (only if buttons are shown)
@@ -317,6 +542,10 @@ export class SingleSelect implements SingleSelectInstance {
 
     list.style.maxHeight = `${String(this.config.maxHeight)}px`;
 
+    if (this.config.virtualScroll) {
+      addClass(list, 'ss-singleselect__options--virtual');
+    }
+
     // Render options
     this.renderOptions(list);
 
@@ -327,29 +556,190 @@ export class SingleSelect implements SingleSelectInstance {
    * Render options into list container
    */
   private renderOptions(container: HTMLElement, filteredData?: OptionData[]): void {
-    container.innerHTML = '';
-
     const dataToRender = filteredData ?? this.optionData;
 
+    // Remote loading/error states and too-short queries replace the list
+    const busy = this.loadStatus === 'loading' || this.loadStatus === 'loading-more';
+    container.setAttribute('aria-busy', busy ? 'true' : 'false');
+    const status = this.getSearchStatus();
+    if (status === 'searching' || status === 'error' || status === 'too-short') {
+      this.virtualRows = [];
+      container.replaceChildren(this.createStatusElement(status));
+      return;
+    }
+
+    // Virtual scroll: only mount the rows inside the viewport
+    if (this.config.virtualScroll) {
+      this.virtualRows = this.getVisibleOptions(dataToRender);
+      this.virtualRange = null;
+      if (this.virtualRows.length > 0) {
+        this.renderVirtualWindow(container);
+        return;
+      }
+    }
+
+    container.innerHTML = '';
+
     if (dataToRender.length === 0) {
-      const emptyMsg = createElement('div', 'ss-singleselect__empty');
-      emptyMsg.textContent = this.searchQuery ? 'No results found' : 'No options available';
-      container.appendChild(emptyMsg);
+      container.appendChild(this.createStatusElement(status));
       return;
     }
 
-    dataToRender.forEach((option) => {
-      const optionEl = this.renderOption(option);
-      container.appendChild(optionEl);
+    // Options in display order, including children of expanded groups at any depth
+    this.getVisibleOptions(dataToRender).forEach((option) => {
+      container.appendChild(this.renderOption(option));
+    });
 
-      // Render children if expanded (for nested options)
-      if (this.config.nestedOptions && option.expanded && option.children.length > 0) {
-        option.children.forEach((child) => {
-          const childEl = this.renderOption(child);
-          container.appendChild(childEl);
-        });
+    if (this.loadStatus === 'loading-more') {
+      container.appendChild(this.createLoadingMoreRow());
+    }
+  }
+
+  /**
+   * Create "loading more" row shown below the options while the next page loads
+   */
+  private createLoadingMoreRow(): HTMLElement {
+    // Hidden from the accessibility tree, the live region announces it instead
+    const row = createElement('div', 'ss-singleselect__loading-more', {
+      'aria-hidden': 'true',
+    });
+    row.textContent = this.config.loadingMoreText;
+    return row;
+  }
+
+  /**
+   * Current state of the status area. 'idle' and 'no-results' only show when the list is
+   * empty, the other states replace the list.
+   */
+  private getSearchStatus(): SearchStatus {
+    if (this.loadStatus === 'loading') return 'searching';
+    if (this.loadStatus === 'error') return 'error';
+    if (this.getMissingQueryLength(this.searchQuery) > 0) return 'too-short';
+    return this.searchQuery ? 'no-results' : 'idle';
+  }
+
+  /**
+   * Configured text for a status
+   */
+  private getStatusMessage(status: SearchStatus): string {
+    switch (status) {
+      case 'too-short':
+        return formatSelectedText(
+          this.getMissingQueryLength(this.searchQuery),
+          this.config.searchMinLengthTextSingular,
+          this.config.searchMinLengthTextPlural
+        );
+      case 'searching':
+        return this.config.loadingText;
+      case 'error':
+        return this.config.loadErrorText;
+      case 'no-results':
+        return this.config.noResultsText;
+      case 'idle':
+      default:
+        return this.config.emptyText;
+    }
+  }
+
+  /**
+   * Create the status area shown in place of the options
+   */
+  private createStatusElement(status: SearchStatus): HTMLElement {
+    const className = `ss-singleselect__status ss-singleselect__${STATUS_CLASSES[status]}`;
+    const statusEl = createElement('div', className, { 'data-status': status });
+    const message = this.getStatusMessage(status);
+
+    if (this.config.renderStatus) {
+      const content = this.config.renderStatus(status, {
+        message,
+        query: this.searchQuery,
+        remaining: status === 'too-short' ? this.getMissingQueryLength(this.searchQuery) : 0,
+      });
+      if (typeof content === 'string') {
+        statusEl.innerHTML = content;
+      } else {
+        statusEl.appendChild(content);
+      }
+    } else {
+      statusEl.textContent = message;
+    }
+
+    return statusEl;
+  }
+
+  /**
+   * Render the window of virtual rows for a scroll position
+   */
+  private renderVirtualWindow(container: HTMLElement, scrollTop = container.scrollTop): void {
+    const itemHeight = this.config.virtualItemHeight;
+    // clientHeight is 0 before layout (and in test environments), fall back to maxHeight
+    const viewportHeight = container.clientHeight || this.config.maxHeight;
+    const range = VirtualScroll.getVirtualRange(
+      scrollTop,
+      viewportHeight,
+      itemHeight,
+      this.virtualRows.length,
+      VIRTUAL_OVERSCAN
+    );
+
+    // Skip re-rendering if the mounted window hasn't changed
+    if (this.virtualRange?.start === range.start && this.virtualRange.end === range.end) {
+      return;
+    }
+    this.virtualRange = range;
+
+    const fragment = document.createDocumentFragment();
+
+    const topSpacer = createElement('div', 'ss-singleselect__virtual-spacer', {
+      role: 'presentation',
+      'aria-hidden': 'true',
+    });
+    topSpacer.style.height = `${String(range.offsetTop)}px`;
+    fragment.appendChild(topSpacer);
+
+    for (let index = range.start; index < range.end; index++) {
+      const option = this.virtualRows[index]!;
+      const optionEl = this.renderOption(option);
+      optionEl.style.height = `${String(itemHeight)}px`;
+      // Mounted rows are a subset of the list, so expose position within the full set
+      optionEl.setAttribute('aria-setsize', String(this.virtualRows.length));
+      optionEl.setAttribute('aria-posinset', String(index + 1));
+      if (index === this.focusedOptionIndex) {
+        addClass(optionEl, 'ss-singleselect__option--focused');
       }
+      fragment.appendChild(optionEl);
+    }
+
+    const bottomSpacer = createElement('div', 'ss-singleselect__virtual-spacer', {
+      role: 'presentation',
+      'aria-hidden': 'true',
     });
+    bottomSpacer.style.height = `${String(range.offsetBottom)}px`;
+    fragment.appendChild(bottomSpacer);
+
+    if (this.loadStatus === 'loading-more') {
+      fragment.appendChild(this.createLoadingMoreRow());
+    }
+
+    container.replaceChildren(fragment);
+  }
+
+  /**
+   * Scroll the virtual list so the row at index is mounted and in view
+   */
+  private scrollToVirtualIndex(index: number): void {
+    if (!this.optionsList) return;
+
+    const viewportHeight = this.optionsList.clientHeight || this.config.maxHeight;
+    const scrollTop = VirtualScroll.getScrollTopForIndex(
+      index,
+      this.optionsList.scrollTop,
+      viewportHeight,
+      this.config.virtualItemHeight
+    );
+
+    this.optionsList.scrollTop = scrollTop;
+    this.renderVirtualWindow(this.optionsList, scrollTop);
   }
 
   /**
@@ -419,10 +809,64 @@ export class SingleSelect implements SingleSelectInstance {
       optionEl.appendChild(radioLabel);
     }
 
-    // Option text
-    const textEl = createElement('span', 'ss-singleselect__option-text');
-    textEl.textContent = option.text;
-    optionEl.appendChild(textEl);
+    // Option content (custom renderer or template, otherwise plain text)
+    const content = createOptionContent(
+      option,
+      {
+        selected: option.selected,
+        disabled: option.disabled,
+        indeterminate: option.indeterminate,
+        isParent: option.children.length > 0,
+        expanded: option.expanded,
+        level: option.level,
+        query: this.searchQuery,
+      },
+      this.config.renderOption,
+      this.config.optionTemplate
+    );
+
+    if (content) {
+      const contentEl = createElement('div', 'ss-singleselect__option-content');
+      contentEl.appendChild(content);
+      optionEl.appendChild(contentEl);
+    } else {
+      if (option.icon) {
+        const iconEl = createElement('span', 'ss-singleselect__option-icon', {
+          'aria-hidden': 'true',
+        });
+        iconEl.textContent = option.icon;
+        optionEl.appendChild(iconEl);
+      }
+
+      const textEl = createElement('span', 'ss-singleselect__option-text');
+      textEl.textContent = option.text;
+
+      // Mark the part of the text that matched the search query
+      if (this.config.highlightMatches && this.searchQuery) {
+        const ranges = getMatchRanges(
+          option.text,
+          this.searchQuery,
+          this.config.searchStrategy,
+          this.getNormalizeOptions()
+        );
+        highlightText(textEl, option.text, ranges, 'ss-singleselect__highlight');
+      }
+
+      if (option.description) {
+        // Description is read via aria-describedby, so keep it out of the accessible name
+        const labelEl = createElement('span', 'ss-singleselect__option-label');
+        const descriptionEl = createElement('span', 'ss-singleselect__option-description', {
+          id: uniqueId('ss-option-description'),
+          'aria-hidden': 'true',
+        });
+        descriptionEl.textContent = option.description;
+        labelEl.append(textEl, descriptionEl);
+        optionEl.appendChild(labelEl);
+        optionEl.setAttribute('aria-describedby', descriptionEl.id);
+      } else {
+        optionEl.appendChild(textEl);
+      }
+    }
 
     return optionEl;
   }
@@ -473,6 +917,15 @@ export class SingleSelect implements SingleSelectInstance {
   private updateTriggerText(): void {
     if (!this.trigger) return;
 
+    // Combobox input shows the selected option's text
+    if (this.trigger instanceof HTMLInputElement) {
+      const selected = this.selectedValue
+        ? NestedOptions.findOption(this.optionData, this.selectedValue)
+        : null;
+      this.trigger.value = selected?.text ?? '';
+      return;
+    }
+
     // Get or create text container (preserve caret)
     let textContainer = this.trigger.querySelector('.ss-singleselect__trigger-text');
     if (!textContainer) {
@@ -498,9 +951,13 @@ export class SingleSelect implements SingleSelectInstance {
    * Bind event handlers
    */
   private bindEvents(): void {
-    // Trigger button click
+    // Trigger button click (clicking into the combobox input only opens the list)
     const triggerClickHandler = () => {
-      this.toggle();
+      if (this.config.combobox) {
+        this.open();
+      } else {
+        this.toggle();
+      }
     };
     this.trigger?.addEventListener('click', triggerClickHandler);
     this.eventHandlers.set('trigger:click', triggerClickHandler);
@@ -508,16 +965,26 @@ export class SingleSelect implements SingleSelectInstance {
     // Trigger button keyboard
     const triggerKeyHandler = (e: Event) => {
       const ke = e as KeyboardEvent;
-      if (ke.key === 'Enter' || ke.key === ' ') {
+      if (this.config.combobox) {
+        // Arrow keys open the closed list, typing is handled by the input handler
+        if (!this._isOpen && (ke.key === 'ArrowDown' || ke.key === 'ArrowUp')) {
+          e.preventDefault();
+          this.open();
+        }
+      } else if (ke.key === 'Enter' || (ke.key === ' ' && !this.typeaheadBuffer)) {
         e.preventDefault();
         this.toggle();
+      } else if (!this._isOpen) {
+        // Typing on the closed trigger changes the selection like a native select
+        this.handleTriggerTypeahead(ke);
       }
     };
     this.trigger?.addEventListener('keydown', triggerKeyHandler);
     this.eventHandlers.set('trigger:keydown', triggerKeyHandler);
 
-    // Search input
-    if (this.searchInput) {
+    // Search input (the trigger itself in combobox mode)
+    const searchTarget = this.config.combobox ? this.trigger : this.searchInput;
+    if (searchTarget) {
       let searchHandler: (e: Event) => void;
 
       if (this.config.searchDebounce > 0) {
@@ -533,8 +1000,16 @@ export class SingleSelect implements SingleSelectInstance {
         };
       }
 
-      this.searchInput.addEventListener('input', searchHandler);
-      this.eventHandlers.set('search:input', searchHandler);
+      // Typing into the combobox opens the list right away, filtering may be debounced
+      const inputHandler = this.config.combobox
+        ? (e: Event) => {
+            this.open();
+            searchHandler(e);
+          }
+        : searchHandler;
+
+      searchTarget.addEventListener('input', inputHandler);
+      this.eventHandlers.set('search:input', inputHandler);
     }
 
     // Options list - event delegation
@@ -565,6 +1040,15 @@ export class SingleSelect implements SingleSelectInstance {
       };
       this.optionsList.addEventListener('focusin', optionsFocusHandler);
       this.eventHandlers.set('options:focusin', optionsFocusHandler);
+
+      // Options scroll - virtual window and remote pagination
+      if (this.config.virtualScroll || this.config.load) {
+        const optionsScrollHandler = () => {
+          this.handleOptionsScroll();
+        };
+        this.optionsList.addEventListener('scroll', optionsScrollHandler);
+        this.eventHandlers.set('options:scroll', optionsScrollHandler);
+      }
     }
 
     // Footer buttons - event delegation
@@ -645,8 +1129,43 @@ export class SingleSelect implements SingleSelectInstance {
     const query = (e.target as HTMLInputElement).value;
     this.searchQuery = query;
 
-    if (!query) {
-      this.filteredData = null;
+    // Queries shorter than searchMinLength are not searched
+    if (this.getMissingQueryLength(query) > 0) {
+      this.showTooShortStatus();
+      return;
+    }
+
+    // Remote options: results (and the search event) arrive asynchronously
+    if (this.config.load) {
+      this.loadRemoteOptions(query);
+      return;
+    }
+
+    const indexTime = query ? this.updateSearchIndex() : 0;
+
+    // Worker search: results (and the search event) arrive asynchronously
+    if (query && this.searchWorker) {
+      this.searchInWorker(this.searchWorker, query, indexTime);
+      return;
+    }
+
+    const start = performance.now();
+    const results = query ? this.searchOptions(query) : null;
+    this.showSearchResults(query, results, { index: indexTime, match: performance.now() - start });
+  }
+
+  /**
+   * Render the results of a local search (null when the query is empty), announce them
+   * and emit the search event
+   */
+  private showSearchResults(
+    query: string,
+    results: OptionData[] | null,
+    timing: SearchTiming
+  ): void {
+    this.filteredData = results;
+    if (!results) {
+      this.endTreeSearch();
       if (this.optionsList) {
         this.renderOptions(this.optionsList);
       }
@@ -655,13 +1174,14 @@ export class SingleSelect implements SingleSelectInstance {
         `Search cleared. ${String(totalCount)} option${totalCount === 1 ? '' : 's'} available.`
       );
     } else {
-      this.filteredData = this.filterOptions(query);
       if (this.optionsList) {
-        this.renderOptions(this.optionsList, this.filteredData);
+        this.renderOptions(this.optionsList, results);
       }
-      const resultCount = this.filteredData.length;
+      const resultCount = results.length;
       this.announce(
-        `${String(resultCount)} result${resultCount === 1 ? '' : 's'} found for "${query}".`
+        resultCount === 0
+          ? this.config.noResultsText
+          : `${String(resultCount)} result${resultCount === 1 ? '' : 's'} found for "${query}".`
       );
     }
 
@@ -675,6 +1195,8 @@ export class SingleSelect implements SingleSelectInstance {
     const detail: SingleSelectSearchEventDetail = {
       query,
       resultsCount: this.filteredData?.length ?? this.optionData.length,
+      results: this.filteredData ? this.searchResults : [],
+      timing,
       value: this.selectedValue,
       option: selectedOption,
       instance: this,
@@ -683,40 +1205,535 @@ export class SingleSelect implements SingleSelectInstance {
   }
 
   /**
-   * Filter options based on search query
+   * Score options in the search worker, then filter and render with the scores.
+   * Results that arrive after the query changed are dropped.
+   */
+  private searchInWorker(worker: SearchWorker, query: string, indexTime: number): void {
+    const start = performance.now();
+    worker.search(query, this.config.searchStrategy).then(
+      (scores) => {
+        if (!scores || query !== this.searchQuery) return;
+        const results = this.filterOptions(query, scores);
+        this.showSearchResults(query, results, {
+          index: indexTime,
+          match: performance.now() - start,
+        });
+      },
+      () => {
+        // Worker failed: search on the main thread from now on
+        worker.terminate();
+        this.searchWorker = null;
+        this.searchIndex = createSearchIndex(this.getNormalizeOptions());
+        this.searchIndexStale = true;
+        if (query === this.searchQuery) {
+          const fallbackIndexTime = this.updateSearchIndex();
+          const fallbackStart = performance.now();
+          const results = this.searchOptions(query);
+          this.showSearchResults(query, results, {
+            index: fallbackIndexTime,
+            match: performance.now() - fallbackStart,
+          });
+        }
+      }
+    );
+  }
+
+  /**
+   * Characters the query still needs before it is searched (0 when it can be searched).
+   * An empty query lists every local option, but remote options wait for searchMinLength.
+   */
+  private getMissingQueryLength(query: string): number {
+    const length = query.trim().length;
+    if (!this.config.searchEnabled || (length === 0 && !this.config.load)) return 0;
+    return Math.max(0, this.config.searchMinLength - length);
+  }
+
+  /**
+   * Replace the options with the too-short status until the query is long enough
+   */
+  private showTooShortStatus(): void {
+    if (this.config.load) {
+      this.abortRemoteLoad();
+    }
+    this.filteredData = [];
+    this.endTreeSearch();
+    this.focusedOptionIndex = -1;
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList);
+    }
+    this.announce(this.getStatusMessage('too-short'));
+  }
+
+  /**
+   * Set up local search: a worker when requested and possible (custom filter and normalize
+   * functions can't be sent to a worker), otherwise a normalized index on the main thread.
+   * A custom searchFilter replaces field matching, so it needs neither.
+   */
+  private createSearchEngine(): void {
+    if (this.config.load || this.config.searchFilter) return;
+
+    if (this.config.searchWorker && !this.config.normalize) {
+      this.searchWorker = createSearchWorker(this.getNormalizeOptions());
+    }
+    if (!this.searchWorker) {
+      this.searchIndex = createSearchIndex(this.getNormalizeOptions());
+    }
+  }
+
+  /**
+   * Bring the search index (or the worker's copy) in line with the options after they
+   * changed. Returns the time spent in milliseconds.
+   */
+  private updateSearchIndex(): number {
+    if (!this.searchIndexStale || (!this.searchIndex && !this.searchWorker)) return 0;
+
+    const start = performance.now();
+    const entries = this.getSearchEntries();
+    this.searchIndex?.sync(entries);
+    this.searchWorker?.setIndex(entries);
+    this.searchIndexStale = false;
+    return performance.now() - start;
+  }
+
+  /**
+   * Filter options for a query on the main thread, through the search index when there is one
+   */
+  private searchOptions(query: string): OptionData[] {
+    if (this.getMissingQueryLength(query) > 0) return [];
+    if (!this.searchIndex) return this.filterOptions(query);
+
+    this.updateSearchIndex();
+    return this.filterOptions(query, this.searchIndex.search(query, this.config.searchStrategy));
+  }
+
+  /**
+   * Searchable field values of every option (parents included) for the search index
+   */
+  private getSearchEntries(): SearchIndexEntry[] {
+    return NestedOptions.flattenOptions(this.optionData).map((option) => ({
+      value: option.value,
+      fields: this.config.searchFields
+        .map((field) => getOptionField(option, field))
+        .filter((value) => value !== ''),
+    }));
+  }
+
+  /**
+   * Load options from the remote loader for a search query
+   */
+  private loadRemoteOptions(query: string): void {
+    const load = this.config.load;
+    if (!load) return;
+
+    // Cancel any in-flight request, only the latest query matters
+    this.abortRemoteLoad();
+    const controller = new AbortController();
+    this.loadController = controller;
+
+    // Start paging over for the new query
+    this.loadPage = 1;
+    this.loadCursor = null;
+    this.hasMoreResults = false;
+
+    this.loadStatus = 'loading';
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList);
+    }
+    this.announce(this.config.loadingText);
+
+    this.requestRemotePage(load, query, 0, controller.signal).then(
+      (result) => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        this.hasMoreResults = result.hasMore;
+        this.loadCursor = result.cursor;
+        this.applyRemoteOptions(query, result.options);
+      },
+      () => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        this.loadStatus = 'error';
+        if (this.optionsList) {
+          this.renderOptions(this.optionsList);
+        }
+        this.announce(this.config.loadErrorText);
+      }
+    );
+  }
+
+  /**
+   * Replace the options list with remote results, keeping the selected option
+   */
+  private applyRemoteOptions(query: string, inputs: OptionInput[]): void {
+    const loaded = this.createRemoteOptions(query, inputs);
+    const loadedValues = new Set(NestedOptions.getAllValues(loaded));
+
+    // Selected option not part of the results stays known so it remains selected
+    const selected = this.selectedValue
+      ? NestedOptions.findOption(this.optionData, this.selectedValue)
+      : null;
+    const kept =
+      selected && !loadedValues.has(selected.value)
+        ? [{ ...selected, parent: null, level: 0, children: [] }]
+        : [];
+
+    this.optionData = [...kept, ...loaded];
+    this.filteredData = loaded;
+    this.loadedQuery = query;
+    this.loadStatus = 'idle';
+    this.focusedOptionIndex = -1;
+
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList, this.filteredData);
+    }
+
+    const resultCount = loaded.length;
+    if (resultCount === 0) {
+      this.announce(this.getStatusMessage(this.getSearchStatus()));
+    } else {
+      this.announce(
+        query
+          ? `${String(resultCount)} result${resultCount === 1 ? '' : 's'} found for "${query}".`
+          : `${String(resultCount)} option${resultCount === 1 ? '' : 's'} available.`
+      );
+    }
+
+    // Emit search event
+    const detail: SingleSelectSearchEventDetail = {
+      query,
+      resultsCount: resultCount,
+      results: loaded.map((option) => ({ value: option.value, text: option.text, score: 1 })),
+      timing: { index: 0, match: 0 },
+      value: this.selectedValue,
+      option: selected,
+      instance: this,
+    };
+    this.emitEvent('singleselect:search', detail);
+    this.fillRemoteList();
+  }
+
+  /**
+   * Call the remote loader for one page and normalize its result
+   */
+  private requestRemotePage(
+    load: OptionLoader,
+    query: string,
+    offset: number,
+    signal: AbortSignal
+  ): Promise<Required<OptionLoaderPage>> {
+    return new Promise<OptionInput[] | OptionLoaderPage>((resolve) => {
+      resolve(load(query, { signal, page: this.loadPage, offset, cursor: this.loadCursor }));
+    }).then(normalizeLoaderResult);
+  }
+
+  /**
+   * Load the next page of remote options and append it to the list
+   */
+  private loadMoreRemoteOptions(): void {
+    const load = this.config.load;
+    if (!load || !this.hasMoreResults || this.loadStatus !== 'idle') return;
+
+    const controller = new AbortController();
+    this.loadController = controller;
+    this.loadPage += 1;
+
+    this.loadStatus = 'loading-more';
+    this.optionsList?.setAttribute('aria-busy', 'true');
+    this.optionsList?.appendChild(this.createLoadingMoreRow());
+    this.announce(this.config.loadingMoreText);
+
+    const offset = this.filteredData?.length ?? 0;
+    this.requestRemotePage(load, this.loadedQuery ?? '', offset, controller.signal).then(
+      (result) => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        this.hasMoreResults = result.hasMore;
+        this.loadCursor = result.cursor;
+        this.appendRemoteOptions(result.options);
+      },
+      () => {
+        if (controller.signal.aborted) return;
+        this.loadController = null;
+        // Allow the page to be requested again on the next scroll
+        this.loadPage -= 1;
+        this.loadStatus = 'idle';
+        this.optionsList?.setAttribute('aria-busy', 'false');
+        this.optionsList?.querySelector('.ss-singleselect__loading-more')?.remove();
+        this.announce(this.config.loadErrorText);
+      }
+    );
+  }
+
+  /**
+   * Append a page of remote results without resetting focus or scroll position
+   */
+  private appendRemoteOptions(inputs: OptionInput[]): void {
+    const shown = this.filteredData ?? [];
+    const shownValues = new Set(NestedOptions.getAllValues(shown));
+    const added = this.createRemoteOptions(this.loadedQuery ?? '', inputs).filter(
+      (option) => !shownValues.has(option.value)
+    );
+    const addedValues = new Set(NestedOptions.getAllValues(added));
+
+    // Added options replace kept selected options with the same value
+    this.optionData = [
+      ...this.optionData.filter((option) => !addedValues.has(option.value)),
+      ...added,
+    ];
+    this.filteredData = [...shown, ...added];
+    this.loadStatus = 'idle';
+
+    if (this.optionsList) {
+      this.optionsList.setAttribute('aria-busy', 'false');
+      if (this.config.virtualScroll && this.virtualRows.length > 0) {
+        // Rows are only appended, so the current window and focused index stay valid
+        this.virtualRows = this.getVisibleOptions(this.filteredData);
+        this.virtualRange = null;
+        this.renderVirtualWindow(this.optionsList);
+      } else {
+        this.optionsList.querySelector('.ss-singleselect__loading-more')?.remove();
+        this.getVisibleOptions(added).forEach((option) => {
+          this.optionsList?.appendChild(this.renderOption(option));
+        });
+      }
+    }
+
+    this.announce(`${String(added.length)} more option${added.length === 1 ? '' : 's'} loaded.`);
+    this.fillRemoteList();
+  }
+
+  /**
+   * Load the next page while the loaded options don't fill the list, as there is nothing
+   * to scroll yet. Skipped while the list isn't laid out (closed dropdown).
+   */
+  private fillRemoteList(): void {
+    const list = this.optionsList;
+    if (!list || !this.hasMoreResults || list.clientHeight === 0) return;
+
+    if (isScrolledNearBottom(list, LOAD_MORE_THRESHOLD)) {
+      this.loadMoreRemoteOptions();
+    }
+  }
+
+  /**
+   * Handle options list scroll
+   */
+  private handleOptionsScroll(): void {
+    if (!this.optionsList) return;
+
+    // Virtual scroll - mount rows for the new scroll position
+    if (this.config.virtualScroll && this.virtualRows.length > 0) {
+      this.renderVirtualWindow(this.optionsList);
+    }
+
+    // Remote pagination - request the next page near the bottom
+    if (this.hasMoreResults && isScrolledNearBottom(this.optionsList, LOAD_MORE_THRESHOLD)) {
+      this.loadMoreRemoteOptions();
+    }
+  }
+
+  /**
+   * Create option data for remote results, restoring selection state
+   */
+  private createRemoteOptions(query: string, inputs: OptionInput[]): OptionData[] {
+    const options = NestedOptions.createOptionTree(inputs);
+
+    // Restore selection state if the selected option is part of the results
+    NestedOptions.flattenOptions(options).forEach((option) => {
+      option.selected = option.value === this.selectedValue;
+    });
+    if (
+      this.config.nestedOptions &&
+      (this.config.defaultExpanded || (query && this.config.expandOnSearch))
+    ) {
+      NestedOptions.expandAll(options);
+    }
+
+    return options;
+  }
+
+  /**
+   * Cancel in-flight remote request (results must be loaded again from the first page)
+   */
+  private abortRemoteLoad(): void {
+    if (this.loadController) {
+      this.loadController.abort();
+      this.loadController = null;
+    }
+    this.loadStatus = 'idle';
+    this.loadedQuery = null;
+    this.hasMoreResults = false;
+  }
+
+  /**
+   * Sync selected value to native select element
+   */
+  private syncSelectionToNative(): void {
+    // Remote options may not exist in the native select yet
+    if (this.config.load && this.selectedValue !== null) {
+      const selected = NestedOptions.findOption(this.optionData, this.selectedValue);
+      if (selected) {
+        ensureNativeOptions(this.selectElement, [selected]);
+      }
+    }
+    this.selectElement.value = this.selectedValue ?? '';
+  }
+
+  /**
+   * Filter options based on search query
+   */
+  private filterOptions(query: string, scores?: Map<string, number>): OptionData[] {
+    const results: { option: OptionData; score: number }[] = [];
+    // Own score of an option: computed by the search worker, or matched here
+    const scoreOf = (option: OptionData): number =>
+      scores ? (scores.get(option.value) ?? 0) : this.matchScore(option, query);
+
+    // Trees show only matching branches, expanded from the pre-search state
+    if (this.config.nestedOptions) {
+      this.beginTreeSearch();
+      const visible = new Set<string>();
+      this.optionData.forEach((option) => {
+        this.collectSearchBranch(option, scoreOf, visible);
+      });
+      this.searchVisible = visible;
+    }
+
+    this.optionData.forEach((option) => {
+      const score = this.optionScore(option, scoreOf);
+      if (score > 0) {
+        results.push({ option, score });
+      }
+    });
+
+    // Fuzzy and custom filter results are ranked by relevance (ties keep their original order)
+    if (this.config.searchStrategy === 'fuzzy' || this.config.searchFilter) {
+      results.sort((a, b) => b.score - a.score);
+    }
+
+    this.searchResults = results.map(({ option, score }) => ({
+      value: option.value,
+      text: option.text,
+      score,
+    }));
+    return results.map(({ option }) => option);
+  }
+
+  /**
+   * Score option against search query (0 = no match), best of its fields and children
    */
-  private filterOptions(query: string): OptionData[] {
-    const filtered: OptionData[] = [];
+  private optionScore(option: OptionData, scoreOf: (option: OptionData) => number): number {
+    let score = scoreOf(option);
 
-    this.optionData.forEach((option) => {
-      if (this.optionMatches(option, query)) {
-        filtered.push(option);
+    // Check children recursively
+    option.children.forEach((child) => {
+      score = Math.max(score, this.optionScore(child, scoreOf));
+    });
+
+    return score;
+  }
 
-        // Expand parent if expandOnSearch is enabled
-        if (this.config.nestedOptions && this.config.expandOnSearch) {
-          option.expanded = true;
+  /**
+   * Score the option's own fields against search query (0 = no match)
+   */
+  private matchScore(option: OptionData, query: string): number {
+    let score = 0;
+
+    if (this.config.searchFilter) {
+      // Custom predicate replaces field matching (true/false count as 1/0)
+      const result = this.config.searchFilter(option, query);
+      score = Math.max(Number(result), 0);
+    } else {
+      // Configured search fields and metadata keys
+      const strategy = this.config.searchStrategy;
+      const normalizeOptions = this.getNormalizeOptions();
+      this.config.searchFields.forEach((field) => {
+        const value = getOptionField(option, field);
+        if (value) {
+          score = Math.max(score, searchScore(value, query, strategy, normalizeOptions));
         }
+      });
+    }
+
+    return score;
+  }
+
+  /**
+   * Collect the options shown by a tree search: matching options with their subtrees
+   * and the ancestor path to every match. Ancestors are expanded when expandOnSearch is on.
+   */
+  private collectSearchBranch(
+    option: OptionData,
+    scoreOf: (option: OptionData) => number,
+    visible: Set<string>
+  ): boolean {
+    const matches = scoreOf(option) > 0;
+
+    let hasMatchingDescendant = false;
+    option.children.forEach((child) => {
+      if (this.collectSearchBranch(child, scoreOf, visible)) {
+        hasMatchingDescendant = true;
       }
     });
 
-    return filtered;
+    if (matches) {
+      NestedOptions.flattenOptions([option]).forEach((node) => visible.add(node.value));
+    }
+    if (hasMatchingDescendant) {
+      visible.add(option.value);
+      if (this.config.expandOnSearch) {
+        option.expanded = true;
+      }
+    }
+
+    return matches || hasMatchingDescendant;
   }
 
   /**
-   * Check if option matches search query
+   * Start a tree search from the expansion state the user had before searching
    */
-  private optionMatches(option: OptionData, query: string): boolean {
-    // Check option itself
-    if (searchMatch(option.text, query, this.config.searchStrategy)) {
-      return true;
+  private beginTreeSearch(): void {
+    if (this.preSearchExpansion) {
+      this.restoreExpansion(this.preSearchExpansion);
+    } else {
+      this.preSearchExpansion = new Map(
+        NestedOptions.flattenOptions(this.optionData).map((option) => [
+          option.value,
+          option.expanded,
+        ])
+      );
     }
+  }
 
-    // Check children recursively
-    if (option.children.length > 0) {
-      return option.children.some((child) => this.optionMatches(child, query));
+  /**
+   * End a tree search, restoring the expansion state from before the search
+   */
+  private endTreeSearch(): void {
+    this.searchVisible = null;
+    if (this.preSearchExpansion) {
+      this.restoreExpansion(this.preSearchExpansion);
+      this.preSearchExpansion = null;
     }
+  }
+
+  /**
+   * Apply saved expansion states (options added since keep their own)
+   */
+  private restoreExpansion(expansion: Map<string, boolean>): void {
+    NestedOptions.flattenOptions(this.optionData).forEach((option) => {
+      option.expanded = expansion.get(option.value) ?? option.expanded;
+    });
+  }
 
-    return false;
+  /**
+   * Text normalization options for search matching
+   */
+  private getNormalizeOptions(): TextNormalizeOptions {
+    return {
+      locale: this.config.locale,
+      ignorePunctuation: this.config.searchIgnorePunctuation,
+      ignoreWhitespace: this.config.searchIgnoreWhitespace,
+      normalize: this.config.normalize,
+    };
   }
 
   /**
@@ -745,7 +1762,6 @@ export class SingleSelect implements SingleSelectInstance {
     this.handleOptionClick(option);
   }
 
-
   /**
    * Handle option click (selection)
    */
@@ -774,7 +1790,14 @@ export class SingleSelect implements SingleSelectInstance {
     }
 
     // Sync with native select
-    this.selectElement.value = this.selectedValue ?? '';
+    this.syncSelectionToNative();
+
+    // The combobox input now shows the selection, so the typed query no longer applies
+    if (this.config.combobox) {
+      this.searchQuery = '';
+      this.filteredData = null;
+      this.endTreeSearch();
+    }
 
     // Update UI
     if (this.optionsList) {
@@ -800,6 +1823,93 @@ export class SingleSelect implements SingleSelectInstance {
     }
   }
 
+  /**
+   * Commit the text typed into the combobox: a matching option, a suggestion,
+   * or (with allowCustomValue) a generated option for the free text
+   */
+  private commitComboboxText(): void {
+    const text = (this.trigger as HTMLInputElement).value.trim();
+
+    // Emptying the input clears the selection
+    if (!text) {
+      this.resetComboboxQuery();
+      this.clear();
+      this.close();
+      return;
+    }
+
+    // Prefer an option with the same text, then (without custom values) the first suggestion
+    const normalizeOptions = this.getNormalizeOptions();
+    const normalized = normalizeText(text, normalizeOptions);
+    const match =
+      NestedOptions.getLeafOptions(this.optionData).find(
+        (option) =>
+          !option.disabled &&
+          (option.value === text || normalizeText(option.text, normalizeOptions) === normalized)
+      ) ??
+      (this.config.allowCustomValue
+        ? undefined
+        : NestedOptions.getLeafOptions(this.filteredData ?? []).find((option) => !option.disabled));
+    if (!match && !this.config.allowCustomValue) return;
+
+    // Free text can't take the value of an existing (e.g. disabled) option
+    const taken = match ? null : NestedOptions.findOption(this.optionData, text);
+    if (taken && taken.meta.custom !== 'true') {
+      this.resetComboboxQuery();
+      this.announce(`${taken.text} is not available.`);
+      return;
+    }
+
+    this.resetComboboxQuery();
+    if (!match) {
+      this.commitCustomValue(text);
+    } else if (match.value !== this.selectedValue) {
+      this.setValue(match.value, { skipAutoClose: true });
+    }
+
+    this.updateTriggerText();
+    const selected = this.selectedValue
+      ? NestedOptions.findOption(this.optionData, this.selectedValue)
+      : null;
+    this.announce(selected ? `${selected.text} selected.` : 'Selection cleared.');
+
+    if (this.config.closeOnSelect) {
+      this.close();
+    }
+  }
+
+  /**
+   * Select free text typed into the combobox through a generated native option
+   */
+  private commitCustomValue(text: string): void {
+    // Only the latest custom value keeps its generated option
+    const staleValues = NestedOptions.flattenOptions(this.optionData)
+      .filter((option) => option.meta.custom === 'true')
+      .map((option) => option.value);
+
+    this.addOptions([{ value: text, text, selected: true, meta: { custom: 'true' } }]);
+    this.removeOptions(staleValues.filter((value) => value !== text));
+  }
+
+  /**
+   * Clear the combobox query, showing all options and the selected text again
+   */
+  private resetComboboxQuery(): void {
+    if (this.searchQuery) {
+      this.searchQuery = '';
+      this.filteredData = null;
+      this.endTreeSearch();
+      if (this.config.load) {
+        this.abortRemoteLoad();
+      }
+      if (this.optionsList) {
+        this.renderOptions(this.optionsList);
+      }
+    }
+    this.focusedOptionIndex = -1;
+    this.updateTriggerText();
+  }
+
   /**
    * Handle expand/collapse toggle
    */
@@ -929,14 +2039,28 @@ export class SingleSelect implements SingleSelectInstance {
   private handleKeyboardNav(e: KeyboardEvent): void {
     if (!this._isOpen || !this.dropdown) return;
 
-    // Focus trap
+    // Focus trap (focus stays in the combobox input, Tab moves on and closes the list)
     if (e.key === 'Tab') {
-      trapFocus(this.dropdown, e);
+      if (this.config.combobox) {
+        this.close();
+      } else {
+        trapFocus(this.dropdown, e);
+      }
       return;
     }
 
+    // Type-ahead (search disabled): jump to the next option starting with the typed text
+    if (this.handleTypeahead(e)) return;
+
     const visibleOptions = this.getVisibleOptions();
 
+    // Combobox: Enter without a highlighted suggestion commits the typed text
+    if (this.config.combobox && e.key === 'Enter' && this.focusedOptionIndex < 0) {
+      e.preventDefault();
+      this.commitComboboxText();
+      return;
+    }
+
     // Arrow Down - move to next option (with wrapping and skip disabled)
     if (e.key === 'ArrowDown') {
       e.preventDefault();
@@ -965,8 +2089,8 @@ export class SingleSelect implements SingleSelectInstance {
       this.announceOption(visibleOptions[this.focusedOptionIndex]);
     }
 
-    // Home - first option
-    if (e.key === 'Home') {
+    // Home - first option (moves the caret in the combobox input instead)
+    if (e.key === 'Home' && !this.config.combobox) {
       e.preventDefault();
       this.focusedOptionIndex = 0;
       this.updateOptionFocus(visibleOptions);
@@ -974,22 +2098,23 @@ export class SingleSelect implements SingleSelectInstance {
     }
 
     // End - last option
-    if (e.key === 'End') {
+    if (e.key === 'End' && !this.config.combobox) {
       e.preventDefault();
       this.focusedOptionIndex = visibleOptions.length - 1;
       this.updateOptionFocus(visibleOptions);
       this.announceOption(visibleOptions[this.focusedOptionIndex]);
     }
 
-    // Enter or Space - select option
-    if ((e.key === 'Enter' || e.key === ' ') && this.focusedOptionIndex >= 0) {
+    // Enter or Space - select option (Space types into the combobox input)
+    const selectKey = e.key === 'Enter' || (e.key === ' ' && !this.config.combobox);
+    if (selectKey && this.focusedOptionIndex >= 0) {
       e.preventDefault();
       const option = visibleOptions[this.focusedOptionIndex];
       if (option && !option.disabled) {
         this.handleOptionClick(option);
 
         // Restore focus to the radio button after selection if not closing
-        if (!this.config.closeOnSelect) {
+        if (!this.config.closeOnSelect && !this.config.combobox) {
           requestAnimationFrame(() => {
             const optionEl = this.optionsList?.querySelector(`[data-value="${option.value}"]`);
             if (optionEl) {
@@ -1003,53 +2128,195 @@ export class SingleSelect implements SingleSelectInstance {
       }
     }
 
-    // Arrow Right - expand group (if parent)
+    // Arrow Right - expand group (if parent), or move into an expanded group
     if (e.key === 'ArrowRight' && this.config.nestedOptions) {
       const option = visibleOptions[this.focusedOptionIndex];
       if (option && option.children.length > 0 && !option.expanded) {
         e.preventDefault();
         this.handleExpandToggle(option);
+      } else if (option && option.children.length > 0) {
+        e.preventDefault();
+        // First child is rendered right after its parent
+        this.focusedOptionIndex = this.focusedOptionIndex + 1;
+        this.updateOptionFocus(visibleOptions);
+        this.announceOption(visibleOptions[this.focusedOptionIndex]);
       }
     }
 
-    // Arrow Left - collapse group (if parent)
+    // Arrow Left - collapse group (if parent), or move to the parent group
     if (e.key === 'ArrowLeft' && this.config.nestedOptions) {
       const option = visibleOptions[this.focusedOptionIndex];
       if (option && option.children.length > 0 && option.expanded) {
         e.preventDefault();
         this.handleExpandToggle(option);
+      } else if (option?.parent) {
+        const parentIndex = visibleOptions.findIndex((opt) => opt.value === option.parent);
+        if (parentIndex >= 0) {
+          e.preventDefault();
+          this.focusedOptionIndex = parentIndex;
+          this.updateOptionFocus(visibleOptions);
+          this.announceOption(visibleOptions[this.focusedOptionIndex]);
+        }
       }
     }
   }
 
+  /**
+   * Add a printable key to the type-ahead buffer, which resets after typeaheadTimeout.
+   * Only used when search is disabled; returns false for keys that are not type-ahead.
+   */
+  private appendTypeahead(e: KeyboardEvent): boolean {
+    if (this.config.searchEnabled || this.config.combobox) return false;
+    if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return false;
+    // Space selects the focused option unless it continues a typed word
+    if (e.key === ' ' && !this.typeaheadBuffer) return false;
+
+    e.preventDefault();
+    this.typeaheadBuffer += e.key;
+    if (this.typeaheadTimer) clearTimeout(this.typeaheadTimer);
+    this.typeaheadTimer = setTimeout(() => {
+      this.typeaheadBuffer = '';
+      this.typeaheadTimer = null;
+    }, this.config.typeaheadTimeout);
+    return true;
+  }
+
+  /**
+   * Type-ahead in the open list: focus the next option starting with the typed text
+   */
+  private handleTypeahead(e: KeyboardEvent): boolean {
+    if (!this.appendTypeahead(e)) return false;
+
+    const visibleOptions = this.getVisibleOptions();
+    const index = findTypeaheadIndex(
+      visibleOptions,
+      this.typeaheadBuffer,
+      this.focusedOptionIndex,
+      this.getNormalizeOptions()
+    );
+    if (index >= 0) {
+      this.focusedOptionIndex = index;
+      this.updateOptionFocus(visibleOptions);
+      this.announceOption(visibleOptions[index]);
+    }
+    return true;
+  }
+
+  /**
+   * Type-ahead on the closed trigger: select the next option starting with the typed
+   * text, like a native select
+   */
+  private handleTriggerTypeahead(e: KeyboardEvent): void {
+    if (!this.appendTypeahead(e)) return;
+
+    const options = NestedOptions.getLeafOptions(this.optionData);
+    const index = findTypeaheadIndex(
+      options,
+      this.typeaheadBuffer,
+      options.findIndex((option) => option.selected),
+      this.getNormalizeOptions()
+    );
+    const option = options[index];
+    if (option && option.value !== this.selectedValue) {
+      this.setValue(option.value);
+      this.announceOption(option);
+    }
+  }
+
   /**
    * Get visible options (considering search filter)
    */
-  private getVisibleOptions(): OptionData[] {
-    const dataToUse = this.filteredData ?? this.optionData;
+  private getVisibleOptions(dataToUse = this.filteredData ?? this.optionData): OptionData[] {
     const visible: OptionData[] = [];
 
     dataToUse.forEach((option) => {
       visible.push(option);
       if (this.config.nestedOptions && option.expanded && option.children.length > 0) {
-        option.children.forEach((child) => visible.push(child));
+        // Tree search shows only the matching branches
+        const children = this.searchVisible
+          ? option.children.filter((child) => this.searchVisible?.has(child.value))
+          : option.children;
+        visible.push(...this.getVisibleOptions(children));
       }
     });
 
     return visible;
   }
 
+  /**
+   * Patch rendered rows to match the visible options, re-rendering only new and changed rows
+   */
+  private patchOptionRows(changedValues: Set<string>): void {
+    const list = this.optionsList;
+    if (!list) return;
+
+    // Keep focus on the same option as rows shift around it
+    const rendered = Array.from(list.querySelectorAll<HTMLElement>('.ss-singleselect__option'));
+    const previousRows = this.config.virtualScroll
+      ? this.virtualRows.map((option) => option.value)
+      : rendered.map((optionEl) => optionEl.getAttribute('data-value'));
+    const focusedValue = previousRows[this.focusedOptionIndex];
+    const rows = this.getVisibleOptions();
+    this.focusedOptionIndex = rows.findIndex((option) => option.value === focusedValue);
+
+    // Virtual rows are positional and status/empty messages replace the list, so re-render
+    if (this.config.virtualScroll || rendered.length === 0 || rows.length === 0) {
+      this.renderOptions(list, this.filteredData ?? undefined);
+      return;
+    }
+
+    const existing = new Map(
+      rendered.map((optionEl) => [optionEl.getAttribute('data-value'), optionEl])
+    );
+    let previous: HTMLElement | null = null;
+
+    rows.forEach((option, index) => {
+      let optionEl = existing.get(option.value);
+      existing.delete(option.value);
+
+      if (!optionEl || changedValues.has(option.value)) {
+        const freshEl = this.renderOption(option);
+        optionEl?.replaceWith(freshEl);
+        optionEl = freshEl;
+      }
+      toggleClass(optionEl, 'ss-singleselect__option--focused', index === this.focusedOptionIndex);
+
+      const expected = previous ? previous.nextElementSibling : list.firstElementChild;
+      if (expected !== optionEl) {
+        if (previous) {
+          previous.after(optionEl);
+        } else {
+          list.prepend(optionEl);
+        }
+      }
+      previous = optionEl;
+    });
+
+    existing.forEach((optionEl) => {
+      optionEl.remove();
+    });
+  }
+
   /**
    * Update visual focus on option
    */
   private updateOptionFocus(visibleOptions: OptionData[]): void {
     if (!this.optionsList) return;
 
+    // Virtual scroll: make sure the focused row is mounted before styling it
+    const virtual = this.config.virtualScroll && this.virtualRows.length > 0;
+    if (virtual && this.focusedOptionIndex >= 0) {
+      this.scrollToVirtualIndex(this.focusedOptionIndex);
+    }
+
     // Remove focus class from all
     const allOptions = this.optionsList.querySelectorAll('.ss-singleselect__option');
     allOptions.forEach((el) => {
       el.classList.remove('ss-singleselect__option--focused');
     });
+    if (this.config.combobox) {
+      this.trigger?.removeAttribute('aria-activedescendant');
+    }
 
     // Add focus class to current
     if (this.focusedOptionIndex >= 0 && this.focusedOptionIndex < visibleOptions.length) {
@@ -1060,8 +2327,13 @@ export class SingleSelect implements SingleSelectInstance {
         );
         if (optionEl) {
           optionEl.classList.add('ss-singleselect__option--focused');
+          // DOM focus stays in the combobox input, point it at the highlighted option
+          if (this.config.combobox) {
+            optionEl.id = optionEl.id || uniqueId('ss-option');
+            this.trigger?.setAttribute('aria-activedescendant', optionEl.id);
+          }
           // scrollIntoView may not be available in test environment (JSDOM)
-          if (typeof optionEl.scrollIntoView === 'function') {
+          if (!virtual && typeof optionEl.scrollIntoView === 'function') {
             optionEl.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
           }
         }
@@ -1095,6 +2367,86 @@ export class SingleSelect implements SingleSelectInstance {
     this.liveRegion.textContent = message;
   }
 
+  /**
+   * Watch the native select for changes made outside the component
+   */
+  private observeSelect(): void {
+    this.selectObserver = new MutationObserver((records) => {
+      this.handleSelectMutations(records);
+    });
+    this.selectObserver.observe(this.selectElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['disabled', 'selected', 'label', 'required'],
+    });
+    this.syncSelectState();
+  }
+
+  /**
+   * Reconcile with changes made to the native select outside the component
+   */
+  private handleSelectMutations(records: MutationRecord[]): void {
+    this.syncSelectState();
+
+    // Once selectedness has been set through the property, the attribute no longer
+    // drives it, so apply selected attribute changes explicitly
+    records.forEach((record) => {
+      if (record.attributeName === 'selected' && record.target instanceof HTMLOptionElement) {
+        record.target.selected = record.target.hasAttribute('selected');
+      }
+    });
+
+    // Remote options don't come from the native select
+    const optionsChanged = records.some(
+      (record) => record.target !== this.selectElement || record.type === 'childList'
+    );
+    if (optionsChanged && !this.config.load) {
+      this.syncOptionsFromNative();
+    }
+  }
+
+  /**
+   * Sync disabled and required state from the native select
+   */
+  private syncSelectState(): void {
+    const triggerDisabled = Boolean((this.trigger as HTMLButtonElement | null)?.disabled);
+    if (this.selectElement.disabled !== triggerDisabled) {
+      if (this.selectElement.disabled) {
+        this.disable();
+      } else {
+        this.enable();
+      }
+    }
+
+    if (this.selectElement.required) {
+      this.trigger?.setAttribute('aria-required', 'true');
+    } else {
+      this.trigger?.removeAttribute('aria-required');
+    }
+  }
+
+  /**
+   * Re-parse options from the native select, keeping expanded groups, search filter and focus
+   */
+  private syncOptionsFromNative(): void {
+    const expandedState = new Map(
+      NestedOptions.flattenOptions(this.optionData).map((option) => [option.value, option.expanded])
+    );
+
+    this.parseOptions();
+    NestedOptions.flattenOptions(this.optionData).forEach((option) => {
+      option.expanded = expandedState.get(option.value) ?? option.expanded;
+    });
+
+    // Selection was read from the native select, so no change event is emitted
+    this.commitOptionChanges(
+      new Set(NestedOptions.getAllValues(this.optionData)),
+      this.selectedValue
+    );
+  }
+
   /**
    * Hide original select element
    */
@@ -1150,7 +2502,7 @@ export class SingleSelect implements SingleSelectInstance {
     });
 
     // Sync with native select
-    this.selectElement.value = newValue ?? '';
+    this.syncSelectionToNative();
 
     // Update UI
     if (this.optionsList) {
@@ -1224,15 +2576,58 @@ export class SingleSelect implements SingleSelectInstance {
     // Start with no option focused (user will navigate with keyboard)
     this.focusedOptionIndex = -1;
 
+    // Bring the current selection into view
+    this.scrollToSelected();
+
+    // Fetch remote options for the current query if not loaded yet
+    const tooShort = this.getMissingQueryLength(this.searchQuery) > 0;
+    if (this.config.load && this.loadedQuery !== this.searchQuery && !tooShort) {
+      this.loadRemoteOptions(this.searchQuery);
+    } else {
+      this.fillRemoteList();
+    }
+
     // Announce to screen readers
     const optionCount = this.getVisibleOptions().length;
     this.announce(
-      `Dropdown opened. ${String(optionCount)} option${optionCount === 1 ? '' : 's'} available.`
+      tooShort
+        ? `Dropdown opened. ${this.getStatusMessage('too-short')}`
+        : `Dropdown opened. ${String(optionCount)} option${optionCount === 1 ? '' : 's'} available.`
     );
 
     this.emitEvent('singleselect:open');
   }
 
+  /**
+   * Scroll the options list so the selected option is visible
+   */
+  private scrollToSelected(): void {
+    if (!this.optionsList || this.selectedValue === null) return;
+
+    // Options inside collapsed groups have no row to scroll to, groups stay as they are
+    const option = NestedOptions.findOption(this.optionData, this.selectedValue);
+    const hidden = option
+      ? NestedOptions.getParentChain(option, this.optionData).some((parent) => !parent.expanded)
+      : true;
+    if (hidden) return;
+
+    if (this.config.virtualScroll && this.virtualRows.length > 0) {
+      const index = this.virtualRows.findIndex((opt) => opt.value === this.selectedValue);
+      if (index !== -1) {
+        this.scrollToVirtualIndex(index);
+      }
+      return;
+    }
+
+    const optionEl = this.optionsList.querySelector(
+      `.ss-singleselect__option[data-value="${this.selectedValue}"]`
+    );
+    // scrollIntoView may not be available in test environment (JSDOM)
+    if (optionEl && typeof optionEl.scrollIntoView === 'function') {
+      optionEl.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
   /**
    * Close dropdown
    */
@@ -1258,17 +2653,27 @@ export class SingleSelect implements SingleSelectInstance {
       this.searchInput.value = '';
       this.searchQuery = '';
       this.filteredData = null;
+      this.endTreeSearch();
+      this.abortRemoteLoad();
       if (this.optionsList) {
         this.renderOptions(this.optionsList);
       }
     }
 
+    // Discard uncommitted combobox text
+    if (this.config.combobox) {
+      this.resetComboboxQuery();
+      this.trigger?.removeAttribute('aria-activedescendant');
+    }
+
     // Reset focused option
     this.focusedOptionIndex = -1;
 
-    // Focus management based on config
+    // Focus management based on config (focus stays where it is for the combobox input)
     // Use setTimeout to ensure focus happens after any pending blur operations
     setTimeout(() => {
+      if (this.config.combobox) return;
+
       if (this.config.returnFocusOnClose) {
         // Return focus to trigger button
         this.trigger?.focus();
@@ -1373,10 +2778,171 @@ export class SingleSelect implements SingleSelectInstance {
     }
   }
 
+  /**
+   * Set data - replace all options (and the native select's options) with new data
+   */
+  public setData(data: OptionInput[]): void {
+    this.builtFromData = true;
+    buildNativeOptions(this.selectElement, data);
+    this.selectObserver?.takeRecords();
+    this.parseOptions();
+    this.updateTriggerText();
+
+    // Re-apply an active local search to the new options
+    this.filteredData =
+      this.searchQuery && !this.config.load ? this.searchOptions(this.searchQuery) : null;
+    this.focusedOptionIndex = -1;
+
+    if (this.optionsList) {
+      this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+    }
+  }
+
+  /**
+   * Add options at root level or under a parent option
+   */
+  public addOptions(options: OptionInput[], position: OptionInsertPosition = {}): void {
+    // Without nested options every option lives at root level
+    const parentValue = this.config.nestedOptions ? position.parent : undefined;
+    const parent =
+      parentValue === undefined ? null : NestedOptions.findOption(this.optionData, parentValue);
+    if (parentValue !== undefined && !parent) return;
+
+    // Values must stay unique
+    const existing = new Set(NestedOptions.getAllValues(this.optionData));
+    const inputs = options.filter((input) => !existing.has(input.value));
+    if (inputs.length === 0) return;
+
+    const previousValue = this.selectedValue;
+    const added = this.createOptions(inputs, parent);
+    NestedOptions.insertOptions(this.optionData, added, parent, position.index);
+    NestedOptions.insertNativeOptions(this.selectElement, this.optionData, added, parent);
+
+    // The parent row may gain an expand icon
+    const changedValues = new Set<string>(parent ? [parent.value] : []);
+
+    // Only one option can be selected, the last new selected option wins
+    const selected = NestedOptions.flattenOptions(added).filter((option) => option.selected);
+    const lastSelected = selected[selected.length - 1];
+    if (lastSelected) {
+      this.markSelected(lastSelected, changedValues);
+    }
+
+    this.commitOptionChanges(changedValues, previousValue);
+  }
+
+  /**
+   * Remove options (and their children) by value
+   */
+  public removeOptions(values: string[]): void {
+    const previousValue = this.selectedValue;
+    const changedValues = new Set<string>();
+
+    values.forEach((value) => {
+      const option = NestedOptions.findOption(this.optionData, value);
+      if (!option) return;
+
+      NestedOptions.removeOption(this.optionData, option);
+      NestedOptions.removeNativeOptions(this.selectElement, option);
+
+      // Parent row may lose its expand icon
+      if (option.parent) {
+        changedValues.add(option.parent);
+      }
+    });
+
+    // Clear selection if the selected option was removed
+    if (
+      this.selectedValue !== null &&
+      !NestedOptions.findOption(this.optionData, this.selectedValue)
+    ) {
+      this.selectedValue = null;
+    }
+
+    this.commitOptionChanges(changedValues, previousValue);
+  }
+
+  /**
+   * Update text, description, icon, disabled/selected state or metadata of an option
+   * (metadata is merged)
+   */
+  public updateOption(value: string, patch: OptionPatch): void {
+    const option = NestedOptions.findOption(this.optionData, value);
+    if (!option) return;
+
+    const previousValue = this.selectedValue;
+    const changedValues = new Set([option.value]);
+    const nativeOption = NestedOptions.findNativeElement(this.selectElement, option);
+
+    if (patch.text !== undefined) {
+      option.text = patch.text;
+      option.label = patch.text;
+      if (nativeOption instanceof HTMLOptGroupElement) {
+        // Keep the group's value when re-parsed, it would otherwise follow the label
+        nativeOption.label = patch.text;
+        nativeOption.dataset.value = option.value;
+      } else if (nativeOption) {
+        nativeOption.text = patch.text;
+      }
+    }
+
+    if (patch.disabled !== undefined) {
+      option.disabled = patch.disabled;
+      if (nativeOption) {
+        nativeOption.disabled = patch.disabled;
+      }
+    }
+
+    if (patch.description !== undefined) {
+      option.description = patch.description;
+      if (nativeOption) {
+        nativeOption.dataset.description = patch.description;
+      }
+    }
+
+    if (patch.icon !== undefined) {
+      option.icon = patch.icon;
+      if (nativeOption) {
+        nativeOption.dataset.icon = patch.icon;
+      }
+    }
+
+    if (patch.meta !== undefined) {
+      option.meta = { ...option.meta, ...patch.meta };
+      if (nativeOption) {
+        Object.assign(nativeOption.dataset, patch.meta);
+      }
+    }
+
+    if (patch.selected !== undefined && patch.selected !== option.selected) {
+      this.markSelected(patch.selected ? option : null, changedValues);
+    }
+
+    this.commitOptionChanges(changedValues, previousValue);
+  }
+
+  /**
+   * Enable or disable an option
+   */
+  public setOptionDisabled(value: string, disabled: boolean): void {
+    this.updateOption(value, { disabled });
+  }
+
   /**
    * Destroy instance
    */
   public destroy(): void {
+    // Cancel pending remote request
+    this.abortRemoteLoad();
+
+    // Stop watching the native select
+    this.selectObserver?.disconnect();
+    this.selectObserver = null;
+
+    if (this.typeaheadTimer) clearTimeout(this.typeaheadTimer);
+    this.searchWorker?.terminate();
+    this.searchWorker = null;
+
     // Remove event listeners
     this.eventHandlers.forEach((handler, key) => {
       if (key === 'window:resize') {
@@ -1464,7 +3030,10 @@ export class SingleSelect implements SingleSelectInstance {
       option.expanded = true;
 
       // Update DOM if options list exists
-      if (this.optionsList) {
+      if (this.optionsList && this.config.virtualScroll) {
+        // Virtual rows are positional, so rebuild the window
+        this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      } else if (this.optionsList) {
         const parentEl = this.optionsList.querySelector(`[data-value="${option.value}"]`);
         if (parentEl) {
           // Update aria-expanded
@@ -1477,9 +3046,9 @@ export class SingleSelect implements SingleSelectInstance {
             addClass(expandIcon as HTMLElement, 'ss-singleselect__expand-icon--expanded');
           }
 
-          // Render and insert children after parent
+          // Render and insert children (and expanded descendants) after parent
           let insertAfter: Element = parentEl;
-          option.children.forEach((child) => {
+          this.getVisibleOptions(option.children).forEach((child) => {
             const childEl = this.renderOption(child);
             insertAfter.insertAdjacentElement('afterend', childEl);
             insertAfter = childEl;
@@ -1511,7 +3080,10 @@ export class SingleSelect implements SingleSelectInstance {
       option.expanded = false;
 
       // Update DOM if options list exists
-      if (this.optionsList) {
+      if (this.optionsList && this.config.virtualScroll) {
+        // Virtual rows are positional, so rebuild the window
+        this.renderOptions(this.optionsList, this.filteredData ?? undefined);
+      } else if (this.optionsList) {
         const parentEl = this.optionsList.querySelector(`[data-value="${option.value}"]`);
         if (parentEl) {
           // Update aria-expanded
@@ -1524,8 +3096,8 @@ export class SingleSelect implements SingleSelectInstance {
             removeClass(expandIcon as HTMLElement, 'ss-singleselect__expand-icon--expanded');
           }
 
-          // Remove children from DOM
-          option.children.forEach((child) => {
+          // Remove descendants from DOM
+          NestedOptions.getChildOptions(option).forEach((child) => {
             const childEl = this.optionsList?.querySelector(`[data-value="${child.value}"]`);
             if (childEl) {
               childEl.remove();
@@ -0,0 +1,66 @@
+/**
+ * Range of rows to mount for a virtualized (windowed) options list
+ */
+export interface VirtualRange {
+  /** Index of the first mounted row (inclusive) */
+  start: number;
+  /** Index after the last mounted row (exclusive) */
+  end: number;
+  /** Height in pixels of the spacer above the mounted rows */
+  offsetTop: number;
+  /** Height in pixels of the spacer below the mounted rows */
+  offsetBottom: number;
+}
+
+/**
+ * Calculate which rows should be mounted for the current scroll position
+ */
+export function getVirtualRange(
+  scrollTop: number,
+  viewportHeight: number,
+  itemHeight: number,
+  totalCount: number,
+  overscan: number
+): VirtualRange {
+  if (totalCount <= 0 || itemHeight <= 0) {
+    return { start: 0, end: 0, offsetTop: 0, offsetBottom: 0 };
+  }
+
+  // Clamp scroll position to the scrollable area (list may have shrunk after filtering)
+  const maxScrollTop = Math.max(0, totalCount * itemHeight - viewportHeight);
+  const clampedScrollTop = Math.min(Math.max(0, scrollTop), maxScrollTop);
+
+  const visibleCount = Math.ceil(viewportHeight / itemHeight);
+  const firstVisible = Math.min(totalCount - 1, Math.floor(clampedScrollTop / itemHeight));
+
+  const start = Math.max(0, firstVisible - overscan);
+  const end = Math.min(totalCount, firstVisible + visibleCount + overscan);
+
+  return {
+    start,
+    end,
+    offsetTop: start * itemHeight,
+    offsetBottom: (totalCount - end) * itemHeight,
+  };
+}
+
+/**
+ * Get the scroll position needed to bring a row into view (like scrollIntoView 'nearest')
+ */
+export function getScrollTopForIndex(
+  index: number,
+  scrollTop: number,
+  viewportHeight: number,
+  itemHeight: number
+): number {
+  const itemTop = index * itemHeight;
+  const itemBottom = itemTop + itemHeight;
+
+  if (itemTop < scrollTop) {
+    return itemTop;
+  }
+  if (itemBottom > scrollTop + viewportHeight) {
+    return itemBottom - viewportHeight;
+  }
+  return scrollTop;
+}
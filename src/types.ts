@@ -1,18 +1,78 @@
 /**
  * Display mode for selected items in the trigger button
  */
-export type SelectedDisplayMode = 'count' | 'list' | 'tags' | 'custom';
+export type SelectedDisplayMode = 'count' | 'list' | 'tags' | 'tokens' | 'custom';
 
 /**
- * Search matching strategy
+ * Search matching strategy ('fuzzy' tolerates missing characters and ranks results)
  */
-export type SearchStrategy = 'contains' | 'startsWith' | 'exact';
+export type SearchStrategy = 'contains' | 'startsWith' | 'exact' | 'fuzzy';
+
+/**
+ * Custom text normalization applied to option fields and queries before matching
+ */
+export type TextNormalizer = (text: string) => string;
+
+/**
+ * Custom search predicate: true/false to include or exclude the option,
+ * or a number to rank it (0 or less excludes it)
+ */
+export type SearchFilter = (option: OptionData, query: string) => boolean | number;
+
+/**
+ * Options for search text normalization
+ */
+export interface TextNormalizeOptions {
+  /** Locale for case folding (e.g. 'tr'), default case mapping when omitted */
+  locale?: string | null;
+  /** Remove punctuation and symbols */
+  ignorePunctuation?: boolean;
+  /** Remove whitespace */
+  ignoreWhitespace?: boolean;
+  /** Custom normalization replacing the built-in steps */
+  normalize?: TextNormalizer | null;
+}
+
+/**
+ * Range of characters in a string (end exclusive)
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Search result with its relevance score
+ */
+export interface SearchResult {
+  /** Option value */
+  value: string;
+  /** Option text */
+  text: string;
+  /** Match score between 0 and 1 (always 1 unless the strategy is 'fuzzy') */
+  score: number;
+}
+
+/**
+ * Time spent on a search, in milliseconds
+ */
+export interface SearchTiming {
+  /** Updating the search index for changed options (0 when it was up to date) */
+  index: number;
+  /** Matching the query and filtering the options, including the round trip to the search worker */
+  match: number;
+}
 
 /**
  * Dropdown position relative to trigger
  */
 export type DropdownPosition = 'auto' | 'top' | 'bottom';
 
+/**
+ * Custom metadata attached to an option (from data-* attributes or JavaScript data)
+ */
+export type OptionMeta = Record<string, string>;
+
 /**
  * Represents a single option in the multi-select
  */
@@ -23,6 +83,10 @@ export interface OptionData {
   text: string;
   /** Display label (alias for text, for compatibility) */
   label: string;
+  /** Secondary text shown under the option text (data-description) */
+  description: string | null;
+  /** Leading icon, e.g. an emoji or icon font ligature (data-icon) */
+  icon: string | null;
   /** Whether the option is disabled */
   disabled: boolean;
   /** Whether the option is selected */
@@ -37,8 +101,153 @@ export interface OptionData {
   expanded: boolean;
   /** Indeterminate state for parent checkboxes */
   indeterminate: boolean;
+  /** Custom metadata (data-* attributes of the native option, camelCased like dataset) */
+  meta: OptionMeta;
+}
+
+/**
+ * Plain option definition used to supply options from JavaScript (e.g. remote loading)
+ */
+export interface OptionInput {
+  /** Unique value for the option */
+  value: string;
+  /** Display text for the option */
+  text: string;
+  /** Secondary text shown under the option text */
+  description?: string;
+  /** Leading icon, e.g. an emoji or icon font ligature */
+  icon?: string;
+  /** Whether the option is disabled */
+  disabled?: boolean;
+  /** Whether the option is selected */
+  selected?: boolean;
+  /** Child options (for nested options) */
+  children?: OptionInput[];
+  /** Custom metadata (written to the native option as data-* attributes) */
+  meta?: OptionMeta;
+}
+
+/**
+ * Changes applied to an existing option with updateOption()
+ */
+export type OptionPatch = Partial<Omit<OptionInput, 'value' | 'children'>>;
+
+/**
+ * Where addOptions() inserts new options
+ */
+export interface OptionInsertPosition {
+  /** Value of the parent option to insert under (root level when omitted) */
+  parent?: string;
+  /** Index among the parent's children or the root options (appended when omitted) */
+  index?: number;
+}
+
+/**
+ * Context passed to a remote option loader
+ */
+export interface OptionLoaderContext {
+  /** Aborted when a newer request supersedes this one or the component is destroyed */
+  signal: AbortSignal;
+  /** Page number being requested (starts at 1) */
+  page: number;
+  /** Number of top-level options already loaded for this query (for offset-based paging) */
+  offset: number;
+  /** Cursor returned with the previous page (for cursor-based paging), null for the first page */
+  cursor: string | null;
+}
+
+/**
+ * One page of remote options
+ */
+export interface OptionLoaderPage {
+  /** Options in this page */
+  options: OptionInput[];
+  /** Whether more pages can be requested by scrolling to the bottom */
+  hasMore?: boolean;
+  /** Cursor passed to the loader when requesting the next page */
+  cursor?: string | null;
+}
+
+/**
+ * Remote option loader, called with the current search query.
+ * Return a plain array when results are not paged.
+ */
+export type OptionLoader = (
+  query: string,
+  context: OptionLoaderContext
+) => Promise<OptionInput[] | OptionLoaderPage>;
+
+/**
+ * Rejection returned by an option creator, shown inline below the create row
+ */
+export interface OptionCreateError {
+  /** Validation message */
+  error: string;
+}
+
+/**
+ * Option creator for creatable mode. Normalizes the typed text into an option
+ * definition, or rejects it with a validation message.
+ */
+export type OptionCreator = (text: string) => OptionInput | OptionCreateError;
+
+/**
+ * State passed to a custom option renderer
+ */
+export interface OptionRenderState {
+  /** Whether the option is selected */
+  selected: boolean;
+  /** Whether the option is disabled */
+  disabled: boolean;
+  /** Whether some (but not all) children are selected */
+  indeterminate: boolean;
+  /** Whether the option is a parent group with children */
+  isParent: boolean;
+  /** Whether the parent group is expanded */
+  expanded: boolean;
+  /** Nesting level (0 for root) */
+  level: number;
+  /** Current search query ('' when not searching) */
+  query: string;
 }
 
+/**
+ * Custom option renderer. Returns the content shown inside the option row;
+ * strings are parsed as HTML, so escape option text with escapeHtml().
+ */
+export type OptionRenderer = (option: OptionData, state: OptionRenderState) => HTMLElement | string;
+
+/**
+ * State of the status area shown in place of the options:
+ * - 'idle': not searching, shown when there are no options
+ * - 'too-short': the query is shorter than searchMinLength
+ * - 'searching': remote options are loading
+ * - 'no-results': the query matches nothing
+ * - 'error': loading remote options failed
+ */
+export type SearchStatus = 'idle' | 'too-short' | 'searching' | 'no-results' | 'error';
+
+/**
+ * State passed to a custom status renderer
+ */
+export interface StatusRenderState {
+  /** Configured text for the status */
+  message: string;
+  /** Current search query ('' when not searching) */
+  query: string;
+  /** Characters still missing to reach searchMinLength (0 unless the status is 'too-short') */
+  remaining: number;
+}
+
+/**
+ * Custom status renderer. Returns the content of the status area; strings are parsed
+ * as HTML, so escape the query with escapeHtml().
+ */
+export type StatusRenderer = (
+  status: SearchStatus,
+  state: StatusRenderState
+) => HTMLElement | string;
+
 /**
  * Configuration options for MultiSelect
  */
@@ -52,6 +261,12 @@ export interface MultiSelectConfig {
   searchEnabled: boolean;
   /** Debounce delay for search input (in milliseconds) */
   searchDebounce: number;
+  /** Time before the type-ahead buffer resets when search is disabled (in milliseconds) */
+  typeaheadTimeout: number;
+  /** Build options from this data instead of the existing <option> elements */
+  data: OptionInput[] | null;
+  /** Watch the native select for outside changes and re-sync automatically */
+  observe: boolean;
 
   /* Footer Options */
   /** Show/hide "Clear All" button */
@@ -63,8 +278,18 @@ export interface MultiSelectConfig {
   /** Text for "Close" button */
   closeText: string;
 
+  /* Selection Limits */
+  /** Maximum number of selected options (null for no limit) */
+  maxSelections: number | null;
+  /** Minimum number of selected options for the select to be valid */
+  minSelections: number;
+  /** Message shown and announced at maxSelections (use {count} placeholder) */
+  maxSelectionsText: string;
+  /** Validation message below minSelections (use {count} placeholder) */
+  minSelectionsText: string;
+
   /* Display Options */
-  /** Display mode for selected items */
+  /** Display mode for selected items ('tokens' turns the trigger into an inline tag input) */
   selectedDisplayMode: SelectedDisplayMode;
   /** Maximum items to display in 'list' mode before showing "+X more" */
   maxSelectedDisplay: number;
@@ -77,6 +302,12 @@ export interface MultiSelectConfig {
   /** Template for multiple selections text (use {count} placeholder) */
   selectedTextPlural: string;
 
+  /* Rendering Options */
+  /** Custom renderer for option content (checkbox and ARIA attributes are kept) */
+  renderOption: OptionRenderer | null;
+  /** Id of a <template> used for option content ([data-field] elements are filled in) */
+  optionTemplate: string | null;
+
   /* Dropdown Options */
   /** Maximum height for dropdown in pixels */
   maxHeight: number;
@@ -90,14 +321,75 @@ export interface MultiSelectConfig {
   /* Search Options */
   /** Search matching strategy */
   searchStrategy: SearchStrategy;
+  /** Locale for case folding in search (e.g. 'tr' or 'de'), default case mapping when null */
+  locale: string | null;
+  /** Ignore punctuation and symbols when matching search queries */
+  searchIgnorePunctuation: boolean;
+  /** Ignore whitespace when matching search queries */
+  searchIgnoreWhitespace: boolean;
+  /** Custom search text normalization (replaces case folding and diacritic stripping) */
+  normalize: TextNormalizer | null;
+  /** Highlight the text matched by the search query in option labels */
+  highlightMatches: boolean;
   /** Clear search input when dropdown closes */
   clearSearchOnClose: boolean;
   /** Auto-focus search input when dropdown opens */
   searchAutoFocus: boolean;
+  /** Option fields matched by search: 'text', 'label', 'value', 'description' or metadata keys */
+  searchFields: string[];
+  /**
+   * Metadata keys whose values are also matched by search
+   * @deprecated List the keys in searchFields instead
+   */
+  searchMetaKeys: string[];
+  /** Custom search predicate replacing field matching */
+  searchFilter: SearchFilter | null;
+  /** Minimum query length before searching (remote options also wait for it before the first load) */
+  searchMinLength: number;
+  /** Select all options matching a list pasted into the search input */
+  pasteSelection: boolean;
+  /** Separator used to split pasted text into tokens */
+  pasteSeparator: RegExp;
+
+  /* Creatable Options */
+  /** Offer to create a new option when the search query matches nothing */
+  creatable: boolean;
+  /** Text for the create row (use {text} placeholder) */
+  createText: string;
+  /** Message when the created value matches a disabled option (use {text} placeholder) */
+  createDisabledText: string;
+  /** Normalize or validate typed text before an option is created */
+  createOption: OptionCreator | null;
+
+  /* Remote Options */
+  /** Load options remotely as the user searches (replaces local filtering) */
+  load: OptionLoader | null;
+  /** Text shown in the options list while remote options are loading */
+  loadingText: string;
+  /** Text shown in the options list when loading remote options fails */
+  loadErrorText: string;
+  /** Text shown at the bottom of the options list while the next page is loading */
+  loadingMoreText: string;
+
+  /* Status Options */
+  /** Text shown when there are no options */
+  emptyText: string;
+  /** Text shown when the search query matches nothing */
+  noResultsText: string;
+  /** Text shown when the query is one character short of searchMinLength (use {count} placeholder) */
+  searchMinLengthTextSingular: string;
+  /** Text shown when the query is several characters short of searchMinLength (use {count} placeholder) */
+  searchMinLengthTextPlural: string;
+  /** Custom renderer for the status area shown in place of the options */
+  renderStatus: StatusRenderer | null;
 
   /* Performance Options */
   /** Enable virtual scrolling for large datasets (>500 options) */
   virtualScroll: boolean;
+  /** Fixed row height in pixels used to window options when virtual scrolling */
+  virtualItemHeight: number;
+  /** Match search queries in a Web Worker (falls back to the main thread when unavailable) */
+  searchWorker: boolean;
   /** Enable/disable animations */
   animation: boolean;
 
@@ -108,7 +400,7 @@ export interface MultiSelectConfig {
   cascadeSelection: boolean;
   /** Show checkboxes for parent groups */
   showParentCheckbox: boolean;
-  /** Auto-expand groups when children match search */
+  /** Temporarily expand the ancestors of matching options while searching */
   expandOnSearch: boolean;
   /** Default expanded state for all groups */
   defaultExpanded: boolean;
@@ -133,6 +425,12 @@ export interface SingleSelectConfig {
   searchEnabled: boolean;
   /** Debounce delay for search input (in milliseconds) */
   searchDebounce: number;
+  /** Time before the type-ahead buffer resets when search is disabled (in milliseconds) */
+  typeaheadTimeout: number;
+  /** Build options from this data instead of the existing <option> elements */
+  data: OptionInput[] | null;
+  /** Watch the native select for outside changes and re-sync automatically */
+  observe: boolean;
 
   /* Footer Options */
   /** Show/hide "Close" button */
@@ -156,15 +454,70 @@ export interface SingleSelectConfig {
   /** Auto-close dropdown after selection */
   closeOnSelect: boolean;
 
+  /* Rendering Options */
+  /** Custom renderer for option content (radio button and ARIA attributes are kept) */
+  renderOption: OptionRenderer | null;
+  /** Id of a <template> used for option content ([data-field] elements are filled in) */
+  optionTemplate: string | null;
+
   /* Search Options */
   /** Search matching strategy */
   searchStrategy: SearchStrategy;
+  /** Locale for case folding in search (e.g. 'tr' or 'de'), default case mapping when null */
+  locale: string | null;
+  /** Ignore punctuation and symbols when matching search queries */
+  searchIgnorePunctuation: boolean;
+  /** Ignore whitespace when matching search queries */
+  searchIgnoreWhitespace: boolean;
+  /** Custom search text normalization (replaces case folding and diacritic stripping) */
+  normalize: TextNormalizer | null;
+  /** Highlight the text matched by the search query in option labels */
+  highlightMatches: boolean;
   /** Clear search input when dropdown closes */
   clearSearchOnClose: boolean;
   /** Auto-focus search input when dropdown opens */
   searchAutoFocus: boolean;
+  /** Option fields matched by search: 'text', 'label', 'value', 'description' or metadata keys */
+  searchFields: string[];
+  /**
+   * Metadata keys whose values are also matched by search
+   * @deprecated List the keys in searchFields instead
+   */
+  searchMetaKeys: string[];
+  /** Custom search predicate replacing field matching */
+  searchFilter: SearchFilter | null;
+  /** Minimum query length before searching (remote options also wait for it before the first load) */
+  searchMinLength: number;
+
+  /* Remote Options */
+  /** Load options remotely as the user searches (replaces local filtering) */
+  load: OptionLoader | null;
+  /** Text shown in the options list while remote options are loading */
+  loadingText: string;
+  /** Text shown in the options list when loading remote options fails */
+  loadErrorText: string;
+  /** Text shown at the bottom of the options list while the next page is loading */
+  loadingMoreText: string;
+
+  /* Status Options */
+  /** Text shown when there are no options */
+  emptyText: string;
+  /** Text shown when the search query matches nothing */
+  noResultsText: string;
+  /** Text shown when the query is one character short of searchMinLength (use {count} placeholder) */
+  searchMinLengthTextSingular: string;
+  /** Text shown when the query is several characters short of searchMinLength (use {count} placeholder) */
+  searchMinLengthTextPlural: string;
+  /** Custom renderer for the status area shown in place of the options */
+  renderStatus: StatusRenderer | null;
 
   /* Performance Options */
+  /** Enable virtual scrolling for large datasets (>500 options) */
+  virtualScroll: boolean;
+  /** Fixed row height in pixels used to window options when virtual scrolling */
+  virtualItemHeight: number;
+  /** Match search queries in a Web Worker (falls back to the main thread when unavailable) */
+  searchWorker: boolean;
   /** Enable/disable animations */
   animation: boolean;
 
@@ -174,10 +527,16 @@ export interface SingleSelectConfig {
   /** Allow deselecting the current selection (clicking selected item deselects it) */
   allowDeselect: boolean;
 
+  /* Combobox Options */
+  /** Replace the trigger button with a text input that filters options as you type */
+  combobox: boolean;
+  /** Let Enter commit typed text that matches no option (a native option is generated) */
+  allowCustomValue: boolean;
+
   /* Nested Options */
   /** Enable nested/hierarchical options support */
   nestedOptions: boolean;
-  /** Auto-expand groups when children match search */
+  /** Temporarily expand the ancestors of matching options while searching */
   expandOnSearch: boolean;
   /** Default expanded state for all groups */
   defaultExpanded: boolean;
@@ -206,6 +565,10 @@ export interface MultiSelectSearchEventDetail extends MultiSelectEventDetail {
   query: string;
   /** Number of results found */
   resultsCount: number;
+  /** Top-level results in display order with their scores (empty when the query is empty) */
+  results: SearchResult[];
+  /** Time spent on the search (0 for remote options) */
+  timing: SearchTiming;
 }
 
 export interface MultiSelectClearEventDetail extends MultiSelectEventDetail {
@@ -218,6 +581,35 @@ export interface MultiSelectGroupEventDetail extends MultiSelectEventDetail {
   group: string;
 }
 
+export interface MultiSelectCreateEventDetail extends MultiSelectEventDetail {
+  /** Text typed in the search input */
+  text: string;
+  /** Option about to be created (can be modified by listeners) */
+  option: OptionInput;
+}
+
+export interface MultiSelectPasteEventDetail extends MultiSelectEventDetail {
+  /** Tokens parsed from the pasted text */
+  tokens: string[];
+  /** Values of every option the tokens matched */
+  matched: string[];
+  /** Matched values that were newly selected */
+  added: string[];
+  /** Matched values left unselected because of maxSelections */
+  dropped: string[];
+  /** Tokens that matched no option */
+  unmatched: string[];
+}
+
+export interface MultiSelectLimitEventDetail extends MultiSelectEventDetail {
+  /** Selection limit that blocked the action */
+  limit: 'max' | 'min';
+  /** Configured maxSelections or minSelections */
+  count: number;
+  /** Option the user tried to select (null for pasting, creating and clearing) */
+  option: OptionData | null;
+}
+
 /**
  * Public API interface for MultiSelect instance
  */
@@ -250,6 +642,18 @@ export interface MultiSelectInstance {
   /** Disable the component */
   disable(): void;
 
+  /* Option Methods */
+  /** Replace all options with new data */
+  setData(data: OptionInput[]): void;
+  /** Add options at root level or under a parent option */
+  addOptions(options: OptionInput[], position?: OptionInsertPosition): void;
+  /** Remove options (and their children) by value */
+  removeOptions(values: string[]): void;
+  /** Update text, disabled/selected state or metadata of an option */
+  updateOption(value: string, patch: OptionPatch): void;
+  /** Enable or disable an option */
+  setOptionDisabled(value: string, disabled: boolean): void;
+
   /* Nested Options Methods */
   /** Expand all parent groups */
   expandAll(): void;
@@ -299,6 +703,18 @@ export interface SingleSelectInstance {
   /** Disable the component */
   disable(): void;
 
+  /* Option Methods */
+  /** Replace all options with new data */
+  setData(data: OptionInput[]): void;
+  /** Add options at root level or under a parent option */
+  addOptions(options: OptionInput[], position?: OptionInsertPosition): void;
+  /** Remove options (and their children) by value */
+  removeOptions(values: string[]): void;
+  /** Update text, disabled/selected state or metadata of an option */
+  updateOption(value: string, patch: OptionPatch): void;
+  /** Enable or disable an option */
+  setOptionDisabled(value: string, disabled: boolean): void;
+
   /* Nested Options Methods */
   /** Expand all parent groups */
   expandAll(): void;
@@ -335,6 +751,10 @@ export interface SingleSelectSearchEventDetail extends SingleSelectEventDetail {
   query: string;
   /** Number of results found */
   resultsCount: number;
+  /** Top-level results in display order with their scores (empty when the query is empty) */
+  results: SearchResult[];
+  /** Time spent on the search (0 for remote options) */
+  timing: SearchTiming;
 }
 
 export interface SingleSelectClearEventDetail extends SingleSelectEventDetail {
@@ -371,6 +791,9 @@ export interface MultiSelectEventMap {
   'multiselect:clear': CustomEvent<MultiSelectClearEventDetail>;
   'multiselect:expand': CustomEvent<MultiSelectGroupEventDetail>;
   'multiselect:collapse': CustomEvent<MultiSelectGroupEventDetail>;
+  'multiselect:create': CustomEvent<MultiSelectCreateEventDetail>;
+  'multiselect:paste': CustomEvent<MultiSelectPasteEventDetail>;
+  'multiselect:limit': CustomEvent<MultiSelectLimitEventDetail>;
 }
 
 export interface SingleSelectEventMap {
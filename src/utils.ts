@@ -1,4 +1,13 @@
-import type { SearchStrategy } from './types';
+import type {
+  SearchStrategy,
+  TextNormalizeOptions,
+  TextRange,
+  OptionData,
+  OptionInput,
+  OptionLoaderPage,
+  OptionRenderer,
+  OptionRenderState,
+} from './types';
 
 /* ===========================
    DOM Utilities
@@ -27,6 +36,16 @@ export function createElement<K extends keyof HTMLElementTagNameMap>(
   return element;
 }
 
+let idCounter = 0;
+
+/**
+ * Generate a document-unique element id
+ */
+export function uniqueId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}-${String(idCounter)}`;
+}
+
 /**
  * Add CSS class to element
  */
@@ -107,32 +126,265 @@ export function trigger<T = unknown>(
    =========================== */
 
 /**
- * Normalize text for searching (lowercase, trim)
+ * Normalize text for searching: case folding (locale-aware when a locale is given),
+ * diacritics stripped (NFD), optionally without punctuation and whitespace, trimmed.
+ * A custom normalize function replaces all of these steps.
  */
-export function normalizeText(text: string): string {
-  return text.toLowerCase().trim();
+export function normalizeText(text: string, options: TextNormalizeOptions = {}): string {
+  if (options.normalize) return options.normalize(text);
+  return foldText(text, options).trim();
+}
+
+/**
+ * Built-in normalization steps of normalizeText(), without trimming
+ */
+function foldText(text: string, options: TextNormalizeOptions): string {
+  // Fold case before decomposing so locale rules see the original letters (Turkish İ)
+  let normalized = options.locale ? text.toLocaleLowerCase(options.locale) : text.toLowerCase();
+  normalized = normalized.replace(/ß/g, 'ss').normalize('NFD').replace(/\p{M}/gu, '');
+
+  if (options.ignorePunctuation) {
+    normalized = normalized.replace(/[\p{P}\p{S}]/gu, '');
+  }
+  if (options.ignoreWhitespace) {
+    normalized = normalized.replace(/\s+/g, '');
+  }
+
+  return normalized;
 }
 
 /**
  * Match text against query based on search strategy
  */
-export function searchMatch(text: string, query: string, strategy: SearchStrategy): boolean {
+export function searchMatch(
+  text: string,
+  query: string,
+  strategy: SearchStrategy,
+  options: TextNormalizeOptions = {}
+): boolean {
   if (!query) return true;
 
-  const normalizedText = normalizeText(text);
-  const normalizedQuery = normalizeText(query);
+  const normalizedText = normalizeText(text, options);
+  const normalizedQuery = normalizeText(query, options);
 
   switch (strategy) {
     case 'exact':
       return normalizedText === normalizedQuery;
     case 'startsWith':
       return normalizedText.startsWith(normalizedQuery);
+    case 'fuzzy':
+      return fuzzyScore(text, query, options) > 0;
     case 'contains':
     default:
       return normalizedText.includes(normalizedQuery);
   }
 }
 
+/**
+ * Score text against query based on search strategy (0 = no match, 1 = best match).
+ * Only the fuzzy strategy ranks matches, the others score every match as 1.
+ */
+export function searchScore(
+  text: string,
+  query: string,
+  strategy: SearchStrategy,
+  options: TextNormalizeOptions = {}
+): number {
+  if (!query) return 1;
+  if (strategy === 'fuzzy') return fuzzyScore(text, query, options);
+  return searchMatch(text, query, strategy, options) ? 1 : 0;
+}
+
+/**
+ * Check whether a character position starts a word
+ */
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s\-_/.,:;()]/.test(text.charAt(index - 1));
+}
+
+/**
+ * Fuzzy match score between 0 (no match) and 1 (exact match).
+ * Exact, prefix and substring hits rank highest; otherwise the query characters must
+ * appear in order (subsequence) and score higher when they start words or run together.
+ */
+export function fuzzyScore(
+  text: string,
+  query: string,
+  options: TextNormalizeOptions = {}
+): number {
+  return fuzzyScoreNormalized(normalizeText(text, options), normalizeText(query, options));
+}
+
+/**
+ * fuzzyScore() for text and query that are already normalized
+ */
+function fuzzyScoreNormalized(normalizedText: string, normalizedQuery: string): number {
+  if (!normalizedQuery) return 1;
+  if (normalizedText === normalizedQuery) return 1;
+  if (normalizedText.startsWith(normalizedQuery)) return 0.9;
+
+  const index = normalizedText.indexOf(normalizedQuery);
+  if (index > 0) {
+    return isWordStart(normalizedText, index) ? 0.8 : 0.7;
+  }
+
+  // Subsequence: one point per character, plus one for each word start and consecutive hit
+  let points = 0;
+  let first = -1;
+  let previous = -2;
+  for (const char of normalizedQuery) {
+    const position = normalizedText.indexOf(char, previous + 1);
+    if (position === -1) return 0;
+
+    points += 1;
+    if (isWordStart(normalizedText, position)) points += 1;
+    if (position === previous + 1) points += 1;
+    if (first === -1) first = position;
+    previous = position;
+  }
+
+  // Scale below substring hits and penalize matches spread over a long stretch of text
+  const density = normalizedQuery.length / (previous - first + 1);
+  return 0.6 * (points / (3 * normalizedQuery.length)) * (0.5 + 0.5 * density);
+}
+
+/**
+ * Normalize text character by character, keeping the original range of every
+ * normalized character. Returns null when the normalization cannot be mapped back
+ * (e.g. a custom normalize function that does not work per character).
+ */
+function mapNormalizedText(
+  text: string,
+  options: TextNormalizeOptions
+): { normalized: string; ranges: TextRange[] } | null {
+  let normalized = '';
+  const ranges: TextRange[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const piece = options.normalize ? options.normalize(char) : foldText(char, options);
+    // One entry per UTF-16 unit, matching string indexes
+    piece.split('').forEach(() => {
+      ranges.push({ start: index, end: index + char.length });
+    });
+    normalized += piece;
+    index += char.length;
+  }
+
+  const expected = normalizeText(text, options);
+  if (normalized !== expected && normalized.trim() !== expected) return null;
+  return { normalized, ranges };
+}
+
+/**
+ * Find the ranges of text matched by a query (in original text positions),
+ * sorted and merged. Used to highlight search matches.
+ */
+export function getMatchRanges(
+  text: string,
+  query: string,
+  strategy: SearchStrategy,
+  options: TextNormalizeOptions = {}
+): TextRange[] {
+  const normalizedQuery = normalizeText(query, options);
+  const mapped = normalizedQuery ? mapNormalizedText(text, options) : null;
+  if (!mapped) return [];
+
+  const { normalized } = mapped;
+  const start = normalized.length - normalized.trimStart().length;
+  const trimmed = normalized.trim();
+  const matches: TextRange[] = [];
+
+  switch (strategy) {
+    case 'exact':
+      if (trimmed === normalizedQuery) {
+        matches.push({ start, end: start + normalizedQuery.length });
+      }
+      break;
+
+    case 'startsWith':
+      if (trimmed.startsWith(normalizedQuery)) {
+        matches.push({ start, end: start + normalizedQuery.length });
+      }
+      break;
+
+    case 'fuzzy': {
+      // Substring hit, otherwise the same in-order characters fuzzyScore() matched
+      const index = normalized.indexOf(normalizedQuery);
+      if (index !== -1) {
+        matches.push({ start: index, end: index + normalizedQuery.length });
+        break;
+      }
+      let previous = -1;
+      for (const char of normalizedQuery) {
+        const position = normalized.indexOf(char, previous + 1);
+        if (position === -1) return [];
+        matches.push({ start: position, end: position + 1 });
+        previous = position;
+      }
+      break;
+    }
+
+    case 'contains':
+    default: {
+      // Every occurrence
+      let index = normalized.indexOf(normalizedQuery);
+      while (index !== -1) {
+        matches.push({ start: index, end: index + normalizedQuery.length });
+        index = normalized.indexOf(normalizedQuery, index + normalizedQuery.length);
+      }
+      break;
+    }
+  }
+
+  // Map back to the original text and merge touching ranges
+  const result: TextRange[] = [];
+  matches.forEach((match) => {
+    const range = {
+      start: mapped.ranges[match.start]!.start,
+      end: mapped.ranges[match.end - 1]!.end,
+    };
+    const last = result[result.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      result.push(range);
+    }
+  });
+  return result;
+}
+
+/**
+ * Find the option a type-ahead buffer jumps to, like a native select: the search starts
+ * at the current option (after it for a new first letter) and wraps, disabled options are
+ * skipped, and a repeated letter ("sss") cycles through the options starting with it.
+ * Returns -1 when nothing matches.
+ */
+export function findTypeaheadIndex(
+  options: OptionData[],
+  buffer: string,
+  currentIndex: number,
+  normalizeOptions: TextNormalizeOptions = {}
+): number {
+  if (options.length === 0) return -1;
+
+  const query = normalizeText(buffer, normalizeOptions);
+  if (!query) return -1;
+  const repeated = query.split('').every((char) => char === query[0]);
+  const prefix = repeated ? query[0]! : query;
+  const offset = repeated || query.length === 1 ? 1 : 0;
+
+  const start = currentIndex < 0 ? 0 : currentIndex + offset;
+  for (let i = 0; i < options.length; i++) {
+    const index = (start + i) % options.length;
+    const option = options[index]!;
+    if (!option.disabled && normalizeText(option.text, normalizeOptions).startsWith(prefix)) {
+      return index;
+    }
+  }
+  return -1;
+}
+
 /* ===========================
    Selection Utilities
    =========================== */
@@ -155,6 +407,101 @@ export function setSelectedValues(selectElement: HTMLSelectElement, values: stri
   });
 }
 
+/**
+ * Append <option> elements for options missing from native select element
+ * (e.g. remotely loaded options that need to be submitted with the form)
+ */
+export function ensureNativeOptions(
+  selectElement: HTMLSelectElement,
+  options: { value: string; text: string }[]
+): void {
+  const existing = new Set(Array.from(selectElement.options).map((option) => option.value));
+
+  options.forEach((option) => {
+    if (!existing.has(option.value)) {
+      selectElement.appendChild(new Option(option.text, option.value));
+      existing.add(option.value);
+    }
+  });
+}
+
+/**
+ * Create native <option> elements for option definitions
+ * (at root level, parents become <optgroup> elements; deeper parents stay options
+ * that their children reference through data-parent)
+ */
+export function createNativeOptions(
+  inputs: OptionInput[],
+  parent: string | null
+): (HTMLOptionElement | HTMLOptGroupElement)[] {
+  const setDataAttributes = (element: HTMLElement, input: OptionInput): void => {
+    Object.assign(element.dataset, input.meta);
+    if (input.description !== undefined) {
+      element.dataset.description = input.description;
+    }
+    if (input.icon !== undefined) {
+      element.dataset.icon = input.icon;
+    }
+  };
+
+  const createOption = (input: OptionInput, parentValue: string | null): HTMLOptionElement => {
+    const selected = input.selected ?? false;
+    const option = new Option(input.text, input.value, selected, selected);
+    option.disabled = input.disabled ?? false;
+    setDataAttributes(option, input);
+    if (parentValue !== null) {
+      option.dataset.parent = parentValue;
+    }
+    return option;
+  };
+
+  const collectOptions = (items: OptionInput[], parentValue: string | null): HTMLOptionElement[] =>
+    items.flatMap((input) => [
+      createOption(input, parentValue),
+      ...collectOptions(input.children ?? [], input.value),
+    ]);
+
+  if (parent !== null) {
+    return collectOptions(inputs, parent);
+  }
+
+  return inputs.map((input) => {
+    if (input.children && input.children.length > 0) {
+      // Direct children belong to the optgroup without data-parent
+      const optgroup = document.createElement('optgroup');
+      optgroup.label = input.text;
+      optgroup.disabled = input.disabled ?? false;
+      setDataAttributes(optgroup, input);
+      optgroup.dataset.value = input.value;
+      optgroup.append(...collectOptions(input.children, null));
+      return optgroup;
+    }
+    return createOption(input, null);
+  });
+}
+
+/**
+ * Replace native select options with options built from data
+ */
+export function buildNativeOptions(selectElement: HTMLSelectElement, data: OptionInput[]): void {
+  selectElement.replaceChildren(...createNativeOptions(data, null));
+
+  // A single select otherwise falls back to selecting its first option
+  if (!selectElement.multiple && !selectElement.querySelector('option[selected]')) {
+    selectElement.selectedIndex = -1;
+  }
+}
+
+/**
+ * Find native <option> element by value
+ */
+export function findNativeOption(
+  selectElement: HTMLSelectElement,
+  value: string
+): HTMLOptionElement | null {
+  return Array.from(selectElement.options).find((option) => option.value === value) ?? null;
+}
+
 /**
  * Sync custom UI selection with native select element
  * Note: Does not emit change event - caller should handle that
@@ -163,6 +510,159 @@ export function syncNativeSelect(selectElement: HTMLSelectElement, values: strin
   setSelectedValues(selectElement, values);
 }
 
+/* ===========================
+   Remote Loading Utilities
+   =========================== */
+
+/**
+ * Normalize remote loader result into a page (plain arrays have no further pages)
+ */
+export function normalizeLoaderResult(
+  result: OptionInput[] | OptionLoaderPage
+): Required<OptionLoaderPage> {
+  if (Array.isArray(result)) {
+    return { options: result, hasMore: false, cursor: null };
+  }
+  return {
+    options: result.options,
+    hasMore: result.hasMore ?? false,
+    cursor: result.cursor ?? null,
+  };
+}
+
+/**
+ * Check if a scroll container is scrolled to within threshold pixels of the bottom
+ */
+export function isScrolledNearBottom(element: HTMLElement, threshold: number): boolean {
+  return element.scrollTop + element.clientHeight >= element.scrollHeight - threshold;
+}
+
+/* ===========================
+   Rendering Utilities
+   =========================== */
+
+/**
+ * Get an option field by name ('text', 'value', 'description' or a metadata key,
+ * either as stored or as its data-* attribute name)
+ */
+export function getOptionField(option: OptionData, field: string): string {
+  if (field === 'text' || field === 'label') {
+    return option.text;
+  }
+  if (field === 'value') {
+    return option.value;
+  }
+  if (field === 'description') {
+    return option.description ?? '';
+  }
+  const key = field.startsWith('data-')
+    ? field.slice(5).replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase())
+    : field;
+  return option.meta[key] ?? '';
+}
+
+/**
+ * Attributes holding URLs, which option fields may not fill with script URLs
+ */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'xlink:href', 'poster']);
+
+/**
+ * Check whether an option field may be set as an attribute: never event handlers, and
+ * no javascript:, vbscript: or data: URLs in URL attributes
+ */
+function isSafeFieldAttribute(attribute: string, value: string): boolean {
+  if (/^on/i.test(attribute)) return false;
+  if (!URL_ATTRIBUTES.has(attribute.toLowerCase())) return true;
+
+  // Browsers ignore whitespace and control characters in the scheme
+  const url = Array.from(value)
+    .filter((char) => char > ' ')
+    .join('');
+  return !/^(javascript|vbscript|data):/i.test(url);
+}
+
+/**
+ * Clone an option <template>, filling [data-field] elements with option fields.
+ * The field is set as text, or as the attribute named by data-field-attr.
+ */
+export function renderOptionTemplate(
+  template: HTMLTemplateElement,
+  option: OptionData
+): DocumentFragment {
+  const fragment = template.content.cloneNode(true) as DocumentFragment;
+
+  fragment.querySelectorAll<HTMLElement>('[data-field]').forEach((element) => {
+    const value = getOptionField(option, element.dataset.field ?? '');
+    const attribute = element.dataset.fieldAttr;
+
+    if (!attribute) {
+      element.textContent = value;
+    } else if (isSafeFieldAttribute(attribute, value)) {
+      element.setAttribute(attribute, value);
+    }
+  });
+
+  return fragment;
+}
+
+/**
+ * Fill an element with text, wrapping the given ranges in <mark> elements
+ * (text nodes only, option text is never parsed as HTML)
+ */
+export function highlightText(
+  element: HTMLElement,
+  text: string,
+  ranges: TextRange[],
+  className: string
+): void {
+  element.textContent = '';
+  let index = 0;
+
+  ranges.forEach((range) => {
+    if (range.start > index) {
+      element.append(text.slice(index, range.start));
+    }
+    const mark = createElement('mark', className);
+    mark.textContent = text.slice(range.start, range.end);
+    element.appendChild(mark);
+    index = range.end;
+  });
+
+  if (index < text.length) {
+    element.append(text.slice(index));
+  }
+}
+
+/**
+ * Build custom option content from a renderer or <template> id.
+ * Returns null when neither is configured so the default text is used.
+ */
+export function createOptionContent(
+  option: OptionData,
+  state: OptionRenderState,
+  renderer: OptionRenderer | null,
+  templateId: string | null
+): Node | null {
+  if (renderer) {
+    const result = renderer(option, state);
+    if (typeof result !== 'string') {
+      return result;
+    }
+    const template = document.createElement('template');
+    template.innerHTML = result;
+    return template.content;
+  }
+
+  if (templateId) {
+    const template = document.getElementById(templateId);
+    if (template instanceof HTMLTemplateElement) {
+      return renderOptionTemplate(template, option);
+    }
+  }
+
+  return null;
+}
+
 /* ===========================
    Positioning Utilities
    =========================== */
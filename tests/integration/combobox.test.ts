@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { SingleSelect } from '@/SingleSelect';
+
+describe('Combobox Mode - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  const getInput = (): HTMLInputElement =>
+    document.querySelector('.ss-singleselect__trigger') as HTMLInputElement;
+
+  const type = (text: string): HTMLInputElement => {
+    const input = getInput();
+    input.value = text;
+    fireEvent.input(input);
+    return input;
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="">Choose a city</option>
+      <option value="par">Paris</option>
+      <option value="lon">London</option>
+      <option value="lis">Lisbon</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('renders the trigger as a WAI-ARIA combobox input', () => {
+    ss = new SingleSelect(select, { combobox: true, placeholder: 'City' });
+
+    const input = getInput();
+    const listbox = document.querySelector('.ss-singleselect__options') as HTMLElement;
+    expect(input.tagName).toBe('INPUT');
+    expect(input.getAttribute('role')).toBe('combobox');
+    expect(input.getAttribute('aria-autocomplete')).toBe('list');
+    expect(input.getAttribute('aria-expanded')).toBe('false');
+    expect(input.getAttribute('aria-controls')).toBe(listbox.id);
+    expect(input.placeholder).toBe('City');
+    expect(document.querySelector('.ss-singleselect__search-input')).toBeNull();
+  });
+
+  it('opens and filters options while typing', () => {
+    ss = new SingleSelect(select, { combobox: true, searchDebounce: 0 });
+
+    const input = type('li');
+
+    expect(ss.isOpen).toBe(true);
+    expect(input.getAttribute('aria-expanded')).toBe('true');
+    const values = Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+    expect(values).toEqual(['lis']);
+  });
+
+  it('moves through suggestions with arrow keys and commits with Enter', () => {
+    ss = new SingleSelect(select, { combobox: true, searchDebounce: 0 });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const input = type('l');
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+    const activeId = input.getAttribute('aria-activedescendant');
+    expect(activeId).toBeTruthy();
+    expect(document.getElementById(activeId!)?.getAttribute('data-value')).toBe('lis');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ss.getValue()).toBe('lis');
+    expect(select.value).toBe('lis');
+    expect(input.value).toBe('Lisbon');
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the closed list with ArrowDown', () => {
+    ss = new SingleSelect(select, { combobox: true });
+
+    fireEvent.keyDown(getInput(), { key: 'ArrowDown' });
+
+    expect(ss.isOpen).toBe(true);
+  });
+
+  it('commits the first suggestion on Enter when custom values are not allowed', () => {
+    ss = new SingleSelect(select, { combobox: true, searchDebounce: 0 });
+
+    const input = type('lon');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ss.getValue()).toBe('lon');
+    expect(input.value).toBe('London');
+    expect(ss.isOpen).toBe(false);
+
+    // Text matching nothing is not committed
+    type('Berlin');
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(ss.getValue()).toBe('lon');
+    expect(select.options).toHaveLength(4);
+  });
+
+  it('commits free text through a generated native option', () => {
+    ss = new SingleSelect(select, { combobox: true, allowCustomValue: true, searchDebounce: 0 });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const input = type('Berlin');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    const generated = select.querySelector<HTMLOptionElement>('option[value="Berlin"]');
+    expect(generated?.selected).toBe(true);
+    expect(generated?.dataset.custom).toBe('true');
+    expect(ss.getValue()).toBe('Berlin');
+    expect(input.value).toBe('Berlin');
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    // A new custom value replaces the previously generated option
+    type('Madrid');
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(ss.getValue()).toBe('Madrid');
+    expect(select.querySelector('option[value="Berlin"]')).toBeNull();
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the selection when free text matches a disabled option value', () => {
+    select.querySelector('option[value="lis"]')!.setAttribute('disabled', '');
+    ss = new SingleSelect(select, { combobox: true, allowCustomValue: true, searchDebounce: 0 });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    let input = type('Berlin');
+    fireEvent.keyDown(input, { key: 'Enter' });
+    onChange.mockClear();
+
+    input = type('lis');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ss.getValue()).toBe('Berlin');
+    expect(input.value).toBe('Berlin');
+    expect(select.querySelector('option[value="Berlin"]')).not.toBeNull();
+    expect(onChange).not.toHaveBeenCalled();
+    expect(document.querySelector('.ss-singleselect__live-region')?.textContent).toBe(
+      'Lisbon is not available.'
+    );
+  });
+
+  it('selects an existing option when the typed text matches it', () => {
+    ss = new SingleSelect(select, { combobox: true, allowCustomValue: true, searchDebounce: 0 });
+
+    const input = type('paris');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ss.getValue()).toBe('par');
+    expect(select.options).toHaveLength(4);
+  });
+
+  it('restores the selected text when closed without committing', () => {
+    select.value = 'par';
+    ss = new SingleSelect(select, { combobox: true, searchDebounce: 0 });
+
+    const input = getInput();
+    expect(input.value).toBe('Paris');
+
+    type('Lon');
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(ss.isOpen).toBe(false);
+    expect(input.value).toBe('Paris');
+    expect(ss.getValue()).toBe('par');
+  });
+
+  it('clears the selection when Enter is pressed on an empty input', () => {
+    select.value = 'par';
+    ss = new SingleSelect(select, { combobox: true, searchDebounce: 0 });
+
+    const input = type('');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ss.getValue()).toBeNull();
+    expect(input.value).toBe('');
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import type { MultiSelectCreateEventDetail, MultiSelectEventDetail } from '@/types';
+
+describe('Creatable Options - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): HTMLInputElement => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+    return input;
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="red">Red</option>
+      <option value="green">Green</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('shows a create row only when the query matches nothing', () => {
+    ms = new MultiSelect(select, { creatable: true, searchDebounce: 0 });
+    ms.open();
+
+    search('re');
+    expect(document.querySelector('.ms-multiselect__create')).toBeNull();
+
+    search('blue');
+    const row = document.querySelector('.ms-multiselect__create');
+    expect(row?.textContent).toBe('Create "blue"');
+    expect(row?.getAttribute('role')).toBe('option');
+    expect(document.querySelector('.ms-multiselect__empty')).toBeNull();
+  });
+
+  it('does not offer creation when creatable is disabled', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    search('blue');
+    expect(document.querySelector('.ms-multiselect__create')).toBeNull();
+    expect(document.querySelector('.ms-multiselect__empty')).not.toBeNull();
+  });
+
+  it('creates and selects the option when the create row is clicked', () => {
+    ms = new MultiSelect(select, { creatable: true, searchDebounce: 0 });
+    ms.open();
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const input = search('Blue');
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+
+    expect(ms.getValue()).toEqual(['Blue']);
+    expect(select.querySelector<HTMLOptionElement>('option[value="Blue"]')?.selected).toBe(true);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(input.value).toBe('');
+    expect(document.querySelector('[data-value="Blue"]')).not.toBeNull();
+    expect(document.querySelector('.ms-multiselect__live-region')?.textContent).toBe(
+      'Blue created and selected.'
+    );
+  });
+
+  it('creates the option on Enter in the search input', () => {
+    ms = new MultiSelect(select, { creatable: true, searchDebounce: 0 });
+    ms.open();
+
+    const input = search('blue');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ms.getValue()).toEqual(['blue']);
+  });
+
+  it('emits a cancelable multiselect:create event', () => {
+    ms = new MultiSelect(select, { creatable: true, searchDebounce: 0 });
+    ms.open();
+    const onCreate = vi.fn((e: Event) => {
+      e.preventDefault();
+    });
+    select.addEventListener('multiselect:create', onCreate);
+
+    search('blue');
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+
+    const detail = (onCreate.mock.calls[0]![0] as CustomEvent<MultiSelectCreateEventDetail>).detail;
+    expect(detail.text).toBe('blue');
+    expect(detail.option).toEqual({ value: 'blue', text: 'blue' });
+    expect(ms.getValue()).toEqual([]);
+    expect(select.options).toHaveLength(2);
+  });
+
+  it('normalizes new options with createOption', () => {
+    ms = new MultiSelect(select, {
+      creatable: true,
+      searchDebounce: 0,
+      createOption: (text: string) => ({ value: text.toLowerCase(), text: text.toUpperCase() }),
+    });
+    ms.open();
+
+    search('Blue');
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+
+    expect(ms.getValue()).toEqual(['blue']);
+    expect(select.querySelector('option[value="blue"]')?.textContent).toBe('BLUE');
+  });
+
+  it('shows the validation message from createOption inline', () => {
+    ms = new MultiSelect(select, {
+      creatable: true,
+      searchDebounce: 0,
+      createOption: (text: string) =>
+        text.includes('@') ? { value: text, text } : { error: 'Enter a valid email address' },
+    });
+    ms.open();
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    search('not-an-email');
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+
+    const row = document.querySelector('.ms-multiselect__create');
+    expect(row?.classList.contains('ms-multiselect__create--invalid')).toBe(true);
+    expect(row?.querySelector('.ms-multiselect__create-error')?.textContent).toBe(
+      'Enter a valid email address'
+    );
+    expect(onChange).not.toHaveBeenCalled();
+
+    // Typing again clears the message
+    search('ann@example.com');
+    expect(document.querySelector('.ms-multiselect__create-error')).toBeNull();
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+    expect(ms.getValue()).toEqual(['ann@example.com']);
+  });
+
+  it('selects an existing option when the normalized value already exists', () => {
+    ms = new MultiSelect(select, {
+      creatable: true,
+      searchDebounce: 0,
+      createOption: () => ({ value: 'red', text: 'Red' }),
+    });
+    ms.open();
+    const onChange = vi.fn();
+    const onCreate = vi.fn();
+    select.addEventListener('change', onChange);
+    select.addEventListener('multiselect:create', onCreate);
+
+    search('crimson');
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+
+    expect(ms.getValue()).toEqual(['red']);
+    expect(select.options).toHaveLength(2);
+    expect(onCreate).not.toHaveBeenCalled();
+    const detail = (onChange.mock.calls[0]![0] as CustomEvent<MultiSelectEventDetail>).detail;
+    expect(detail.values).toEqual(['red']);
+  });
+
+  it('does not select an existing disabled option', () => {
+    select.options[1]!.disabled = true;
+    ms = new MultiSelect(select, {
+      creatable: true,
+      searchDebounce: 0,
+      createOption: () => ({ value: 'green', text: 'Green' }),
+    });
+    ms.open();
+
+    search('lime');
+    fireEvent.click(document.querySelector('.ms-multiselect__create') as HTMLElement);
+
+    expect(ms.getValue()).toEqual([]);
+    expect(document.querySelector('.ms-multiselect__create-error')?.textContent).toBe(
+      '"Green" is not available'
+    );
+  });
+
+  it('reaches the create row with the arrow keys', () => {
+    ms = new MultiSelect(select, { creatable: true, searchDebounce: 0 });
+    ms.open();
+
+    const input = search('blue');
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+    const row = document.querySelector('.ms-multiselect__create') as HTMLElement;
+    expect(row.classList.contains('ms-multiselect__create--focused')).toBe(true);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(ms.getValue()).toEqual(['blue']);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { OptionData, OptionRenderState } from '@/types';
+
+describe('Custom Option Rendering - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="alice" data-role="Admin" data-avatar="/a.png">Alice</option>
+      <option value="bob" data-role="Editor" data-avatar="/b.png" selected>Bob</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+    document.getElementById('user-template')?.remove();
+  });
+
+  it('renders content returned as an element from renderOption', () => {
+    ms = new MultiSelect(select, {
+      renderOption: (option: OptionData) => {
+        const el = document.createElement('strong');
+        el.className = 'user-name';
+        el.textContent = `${option.text} (${option.meta.role ?? ''})`;
+        return el;
+      },
+    });
+    ms.open();
+
+    const row = document.querySelector('[data-value="alice"]') as HTMLElement;
+    expect(row.querySelector('.ms-multiselect__option-content .user-name')?.textContent).toBe(
+      'Alice (Admin)'
+    );
+    expect(row.querySelector('.ms-multiselect__option-text')).toBeNull();
+  });
+
+  it('parses string results from renderOption as HTML', () => {
+    ms = new MultiSelect(select, {
+      renderOption: (option: OptionData) => `<span class="badge">${option.value}</span>`,
+    });
+    ms.open();
+
+    expect(document.querySelector('[data-value="bob"] .badge')?.textContent).toBe('bob');
+  });
+
+  it('keeps the option wrapper, checkbox and ARIA attributes', () => {
+    ms = new MultiSelect(select, { renderOption: () => 'custom' });
+    ms.open();
+
+    const row = document.querySelector('[data-value="bob"]') as HTMLElement;
+    expect(row.getAttribute('role')).toBe('option');
+    expect(row.getAttribute('aria-selected')).toBe('true');
+    expect(row.classList.contains('ms-multiselect__option--selected')).toBe(true);
+    expect(row.querySelector<HTMLInputElement>('.ms-multiselect__checkbox')?.checked).toBe(true);
+  });
+
+  it('passes the render state and re-renders when selection changes', () => {
+    const renderOption = vi.fn((option: OptionData, state: OptionRenderState) =>
+      state.selected ? `${option.text} ✓` : option.text
+    );
+    ms = new MultiSelect(select, { renderOption });
+    ms.open();
+
+    expect(renderOption).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'bob' }),
+      expect.objectContaining({ selected: true, disabled: false, isParent: false, level: 0 })
+    );
+
+    fireEvent.click(document.querySelector('[data-value="alice"]') as HTMLElement);
+
+    expect(document.querySelector('[data-value="alice"]')?.textContent).toContain('Alice ✓');
+  });
+
+  it('fills a <template> referenced by id', () => {
+    const template = document.createElement('template');
+    template.id = 'user-template';
+    template.innerHTML = `
+      <img class="avatar" data-field="avatar" data-field-attr="src" alt="">
+      <span class="name" data-field="text"></span>
+      <small class="role" data-field="role"></small>
+    `;
+    document.body.appendChild(template);
+
+    ms = new MultiSelect(select, { optionTemplate: 'user-template' });
+    ms.open();
+
+    const row = document.querySelector('[data-value="alice"]') as HTMLElement;
+    expect(row.querySelector('.avatar')?.getAttribute('src')).toBe('/a.png');
+    expect(row.querySelector('.name')?.textContent).toBe('Alice');
+    expect(row.querySelector('.role')?.textContent).toBe('Admin');
+  });
+
+  it('does not fill attributes with script URLs or event handlers', () => {
+    select.innerHTML = `
+      <option value="eve" data-link=" javascript:alert(1)" data-avatar="data:text/html,x">Eve</option>
+      <option value="bob" data-link="/users/bob" data-avatar="/b.png">Bob</option>
+    `;
+    const template = document.createElement('template');
+    template.id = 'link-template';
+    template.innerHTML = `
+      <a class="link" data-field="link" data-field-attr="href"></a>
+      <img class="avatar" data-field="avatar" data-field-attr="SRC" alt="">
+      <span class="name" data-field="text" data-field-attr="onclick"></span>
+    `;
+    document.body.appendChild(template);
+
+    ms = new MultiSelect(select, { optionTemplate: 'link-template' });
+    ms.open();
+
+    const eve = document.querySelector('[data-value="eve"]') as HTMLElement;
+    expect(eve.querySelector('.link')?.hasAttribute('href')).toBe(false);
+    expect(eve.querySelector('.avatar')?.hasAttribute('src')).toBe(false);
+    expect(eve.querySelector('.name')?.hasAttribute('onclick')).toBe(false);
+    const bob = document.querySelector('[data-value="bob"]') as HTMLElement;
+    expect(bob.querySelector('.link')?.getAttribute('href')).toBe('/users/bob');
+    expect(bob.querySelector('.avatar')?.getAttribute('src')).toBe('/b.png');
+    template.remove();
+  });
+
+  it('falls back to plain text when the template does not exist', () => {
+    ms = new MultiSelect(select, { optionTemplate: 'missing-template' });
+    ms.open();
+
+    expect(
+      document.querySelector('[data-value="alice"] .ms-multiselect__option-text')?.textContent
+    ).toBe('Alice');
+  });
+});
+
+describe('Custom Option Rendering - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="us" data-count="12">United States</option>
+      <option value="ca" data-count="4">Canada</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('renders custom content while keeping the radio and ARIA attributes', () => {
+    ss = new SingleSelect(select, {
+      showRadioButtons: true,
+      renderOption: (option: OptionData) => {
+        const el = document.createElement('span');
+        el.className = 'count';
+        el.textContent = option.meta.count ?? '';
+        return el;
+      },
+    });
+    ss.open();
+
+    const row = document.querySelector('[data-value="ca"]') as HTMLElement;
+    expect(row.querySelector('.ss-singleselect__option-content .count')?.textContent).toBe('4');
+    expect(row.getAttribute('role')).toBe('option');
+    expect(row.querySelector('.ss-singleselect__radio')).not.toBeNull();
+
+    fireEvent.click(row);
+    expect(ss.getValue()).toBe('ca');
+  });
+
+  it('escapes text placed through a template', () => {
+    const template = document.createElement('template');
+    template.id = 'country-template';
+    template.innerHTML = '<span class="name" data-field="text"></span>';
+    document.body.appendChild(template);
+    select.options[0]!.text = '<b>United States</b>';
+
+    ss = new SingleSelect(select, { optionTemplate: 'country-template' });
+    ss.open();
+
+    const name = document.querySelector('[data-value="us"] .name') as HTMLElement;
+    expect(name.textContent).toBe('<b>United States</b>');
+    expect(name.querySelector('b')).toBeNull();
+    template.remove();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { OptionInput } from '@/types';
+
+const DATA: OptionInput[] = [
+  {
+    value: 'fruits',
+    text: 'Fruits',
+    children: [
+      { value: 'apple', text: 'Apple', selected: true },
+      { value: 'banana', text: 'Banana' },
+    ],
+  },
+  {
+    value: 'vegetables',
+    text: 'Vegetables',
+    children: [
+      {
+        value: 'roots',
+        text: 'Roots',
+        children: [
+          { value: 'carrot', text: 'Carrot' },
+          { value: 'beet', text: 'Beet', disabled: true },
+        ],
+      },
+    ],
+  },
+];
+
+describe('Data Config - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.appendChild(new Option('Stale', 'stale'));
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('builds the native select from data', () => {
+    ms = new MultiSelect(select, { data: DATA, nestedOptions: true });
+
+    const values = Array.from(select.options).map((option) => option.value);
+    expect(values).toEqual(['apple', 'banana', 'roots', 'carrot', 'beet']);
+    expect(select.querySelector('[value="carrot"]')?.getAttribute('data-parent')).toBe('roots');
+    expect(ms.getValue()).toEqual(['apple']);
+  });
+
+  it('renders nested levels from data', () => {
+    ms = new MultiSelect(select, { data: DATA, nestedOptions: true, defaultExpanded: true });
+    ms.open();
+
+    const carrot = document.querySelector('[data-value="carrot"]');
+    expect(carrot).not.toBeNull();
+    expect(carrot?.classList.contains('ms-multiselect__option--level-2')).toBe(true);
+  });
+
+  it('renders only leaf options when nested options are disabled', () => {
+    ms = new MultiSelect(select, { data: DATA });
+    ms.open();
+
+    const rendered = Array.from(document.querySelectorAll('.ms-multiselect__option')).map(
+      (option) => option.getAttribute('data-value')
+    );
+    expect(rendered).toEqual(['apple', 'banana', 'carrot', 'beet']);
+  });
+
+  it('replaces options with setData', () => {
+    ms = new MultiSelect(select, { data: DATA });
+    ms.open();
+
+    ms.setData([
+      { value: 'x', text: 'X' },
+      { value: 'y', text: 'Y', selected: true },
+    ]);
+
+    expect(Array.from(select.options).map((option) => option.value)).toEqual(['x', 'y']);
+    expect(ms.getValue()).toEqual(['y']);
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(2);
+  });
+
+  it('keeps user selection when refreshed', () => {
+    ms = new MultiSelect(select, { data: DATA });
+    ms.open();
+
+    const banana = document.querySelector('[data-value="banana"]') as HTMLElement;
+    fireEvent.click(banana);
+    ms.refresh();
+
+    expect(ms.getValue()).toEqual(['apple', 'banana']);
+  });
+
+  it('reads native edits back when refreshed', () => {
+    ms = new MultiSelect(select, { data: DATA, nestedOptions: true, defaultExpanded: true });
+
+    select.querySelector('optgroup')!.appendChild(new Option('Cherry', 'cherry'));
+    select.querySelector('[value="banana"]')!.remove();
+    ms.refresh();
+    ms.open();
+
+    const rendered = Array.from(document.querySelectorAll('.ms-multiselect__option')).map(
+      (option) => option.getAttribute('data-value')
+    );
+    expect(rendered).toEqual([
+      'fruits',
+      'apple',
+      'cherry',
+      'vegetables',
+      'roots',
+      'carrot',
+      'beet',
+    ]);
+    expect(ms.getValue()).toEqual(['apple']);
+  });
+});
+
+describe('Data Config - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('builds the native select from data without a selection', () => {
+    ss = new SingleSelect(select, {
+      data: [
+        { value: 'a', text: 'A' },
+        { value: 'b', text: 'B' },
+      ],
+    });
+
+    expect(select.options).toHaveLength(2);
+    expect(ss.getValue()).toBeNull();
+  });
+
+  it('replaces options with setData', () => {
+    ss = new SingleSelect(select, { data: [{ value: 'a', text: 'A', selected: true }] });
+    expect(ss.getValue()).toBe('a');
+
+    ss.setData([
+      { value: 'b', text: 'B' },
+      { value: 'c', text: 'C', selected: true },
+    ]);
+
+    expect(ss.getValue()).toBe('c');
+    expect(select.value).toBe('c');
+  });
+});
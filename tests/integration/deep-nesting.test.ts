@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+const TAXONOMY = `
+  <option value="electronics">Electronics</option>
+  <option value="computers" data-parent="electronics">Computers</option>
+  <option value="laptops" data-parent="computers">Laptops</option>
+  <option value="gaming" data-parent="laptops">Gaming</option>
+  <option value="ultrabooks" data-parent="laptops">Ultrabooks</option>
+  <option value="desktops" data-parent="computers">Desktops</option>
+  <option value="phones" data-parent="electronics">Phones</option>
+`;
+
+function renderedValues(prefix: string): (string | null)[] {
+  return Array.from(document.querySelectorAll(`.${prefix}__option`)).map((option) =>
+    option.getAttribute('data-value')
+  );
+}
+
+describe('Deep Nesting - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = TAXONOMY;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('renders every level with indentation', () => {
+    ms = new MultiSelect(select, { nestedOptions: true, defaultExpanded: true });
+    ms.open();
+
+    expect(renderedValues('ms-multiselect')).toEqual([
+      'electronics',
+      'computers',
+      'laptops',
+      'gaming',
+      'ultrabooks',
+      'desktops',
+      'phones',
+    ]);
+    const gaming = document.querySelector('[data-value="gaming"]') as HTMLElement;
+    expect(gaming.classList.contains('ms-multiselect__option--level-3')).toBe(true);
+    expect(gaming.style.paddingLeft).toBe('60px');
+  });
+
+  it('expands and collapses groups at any depth', () => {
+    ms = new MultiSelect(select, { nestedOptions: true });
+    ms.open();
+    expect(renderedValues('ms-multiselect')).toEqual(['electronics']);
+
+    ms.expandGroup('electronics');
+    ms.expandGroup('computers');
+    ms.expandGroup('laptops');
+    expect(renderedValues('ms-multiselect')).toEqual([
+      'electronics',
+      'computers',
+      'laptops',
+      'gaming',
+      'ultrabooks',
+      'desktops',
+      'phones',
+    ]);
+
+    // Collapsing an ancestor hides all descendants but keeps their expanded state
+    ms.collapseGroup('electronics');
+    expect(renderedValues('ms-multiselect')).toEqual(['electronics']);
+
+    ms.expandGroup('electronics');
+    expect(renderedValues('ms-multiselect')).toContain('gaming');
+  });
+
+  it('cascades selection and shows indeterminate state at every level', () => {
+    ms = new MultiSelect(select, {
+      nestedOptions: true,
+      defaultExpanded: true,
+      cascadeSelection: true,
+      showParentCheckbox: true,
+    });
+    ms.open();
+
+    fireEvent.click(document.querySelector('[data-value="laptops"]') as HTMLElement);
+    expect(ms.getValue()).toEqual(['gaming', 'ultrabooks']);
+
+    const checkbox = (value: string): HTMLInputElement =>
+      document.querySelector(
+        `[data-value="${value}"] .ms-multiselect__checkbox`
+      ) as HTMLInputElement;
+    expect(checkbox('laptops').checked).toBe(true);
+    expect(checkbox('computers').indeterminate).toBe(true);
+    expect(checkbox('electronics').indeterminate).toBe(true);
+
+    fireEvent.click(document.querySelector('[data-value="electronics"]') as HTMLElement);
+    expect(ms.getValue()).toEqual(['gaming', 'ultrabooks', 'desktops', 'phones']);
+    expect(checkbox('electronics').checked).toBe(true);
+  });
+
+  it('derives initial parent states from selected descendants', () => {
+    select.querySelector('[value="gaming"]')!.setAttribute('selected', '');
+    ms = new MultiSelect(select, {
+      nestedOptions: true,
+      defaultExpanded: true,
+      showParentCheckbox: true,
+    });
+    ms.open();
+
+    const electronics = document.querySelector(
+      '[data-value="electronics"] .ms-multiselect__checkbox'
+    ) as HTMLInputElement;
+    expect(electronics.indeterminate).toBe(true);
+  });
+
+  it('navigates into and out of groups with arrow keys', () => {
+    ms = new MultiSelect(select, { nestedOptions: true });
+    ms.open();
+    const dropdown = document.querySelector('.ms-multiselect__dropdown') as HTMLElement;
+    const focusedValue = (): string | null | undefined =>
+      document.querySelector('.ms-multiselect__option--focused')?.getAttribute('data-value');
+
+    fireEvent.keyDown(dropdown, { key: 'ArrowDown' });
+    fireEvent.keyDown(dropdown, { key: 'ArrowRight' });
+    expect(renderedValues('ms-multiselect')).toEqual(['electronics', 'computers', 'phones']);
+
+    fireEvent.keyDown(dropdown, { key: 'ArrowRight' });
+    expect(focusedValue()).toBe('computers');
+
+    fireEvent.keyDown(dropdown, { key: 'ArrowRight' });
+    fireEvent.keyDown(dropdown, { key: 'ArrowRight' });
+    expect(focusedValue()).toBe('laptops');
+
+    fireEvent.keyDown(dropdown, { key: 'ArrowLeft' });
+    expect(focusedValue()).toBe('computers');
+  });
+});
+
+describe('Deep Nesting - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = TAXONOMY;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('renders and selects deeply nested options', () => {
+    ss = new SingleSelect(select, { nestedOptions: true, defaultExpanded: true });
+    ss.open();
+
+    expect(renderedValues('ss-singleselect')).toHaveLength(7);
+    fireEvent.click(document.querySelector('[data-value="ultrabooks"]') as HTMLElement);
+    expect(ss.getValue()).toBe('ultrabooks');
+  });
+});
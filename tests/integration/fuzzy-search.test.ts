@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { MultiSelectSearchEventDetail, SingleSelectSearchEventDetail } from '@/types';
+
+const STATES = `
+  <option value="nc">North Carolina</option>
+  <option value="co">Colorado</option>
+  <option value="ca">California</option>
+  <option value="al">Alabama</option>
+`;
+
+describe('Fuzzy Search - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const renderedValues = (): (string | null)[] =>
+    Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = STATES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('finds options despite missing characters', () => {
+    ms = new MultiSelect(select, { searchStrategy: 'fuzzy', searchDebounce: 0 });
+    ms.open();
+
+    search('calfornia');
+
+    expect(renderedValues()).toEqual(['ca']);
+  });
+
+  it('sorts results by score', () => {
+    ms = new MultiSelect(select, { searchStrategy: 'fuzzy', searchDebounce: 0 });
+    ms.open();
+
+    search('ca');
+
+    // Prefix hit first, then the word-boundary substring hit, then subsequences
+    expect(renderedValues()).toEqual(['ca', 'nc', 'co']);
+  });
+
+  it('exposes scores in the search event', () => {
+    ms = new MultiSelect(select, { searchStrategy: 'fuzzy', searchDebounce: 0 });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    search('ca');
+
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<MultiSelectSearchEventDetail>).detail;
+    expect(detail.results.map((result) => result.value)).toEqual(['ca', 'nc', 'co']);
+    expect(detail.results[0]).toEqual({ value: 'ca', text: 'California', score: 0.9 });
+    expect(detail.results[1]!.score).toBe(0.8);
+    expect(detail.results[2]!.score).toBeLessThan(0.7);
+  });
+
+  it('keeps the original order and scores of 1 for other strategies', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    search('a');
+
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<MultiSelectSearchEventDetail>).detail;
+    expect(renderedValues()).toEqual(['nc', 'co', 'ca', 'al']);
+    expect(detail.results.every((result) => result.score === 1)).toBe(true);
+  });
+});
+
+describe('Fuzzy Search - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = STATES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('ranks results and reports scores', () => {
+    ss = new SingleSelect(select, { searchStrategy: 'fuzzy', searchDebounce: 0 });
+    ss.open();
+    const onSearch = vi.fn();
+    select.addEventListener('singleselect:search', onSearch);
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = 'ca';
+    fireEvent.input(input);
+
+    const values = Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+    expect(values).toEqual(['ca', 'nc', 'co']);
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<SingleSelectSearchEventDetail>)
+      .detail;
+    expect(detail.results.map((result) => result.score)).toEqual(
+      [...detail.results.map((result) => result.score)].sort((a, b) => b - a)
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function renderedValues(prefix: string): (string | null)[] {
+  return Array.from(document.querySelectorAll(`.${prefix}__option`)).map((option) =>
+    option.getAttribute('data-value')
+  );
+}
+
+describe('Observe Mode - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="apple">Apple</option>
+      <option value="banana">Banana</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('picks up options added to the native select', async () => {
+    ms = new MultiSelect(select, { observe: true });
+    ms.open();
+
+    select.appendChild(new Option('Cherry', 'cherry'));
+    await flush();
+
+    expect(renderedValues('ms-multiselect')).toEqual(['apple', 'banana', 'cherry']);
+  });
+
+  it('picks up removed options and changed text', async () => {
+    ms = new MultiSelect(select, { observe: true });
+    ms.open();
+
+    select.options[0]!.remove();
+    select.options[0]!.text = 'Plantain';
+    await flush();
+
+    expect(renderedValues('ms-multiselect')).toEqual(['banana']);
+    expect(document.querySelector('[data-value="banana"]')?.textContent).toContain('Plantain');
+  });
+
+  it('syncs selected and disabled attributes without emitting change', async () => {
+    ms = new MultiSelect(select, { observe: true });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    select.options[1]!.setAttribute('selected', '');
+    select.options[0]!.setAttribute('disabled', '');
+    await flush();
+
+    expect(ms.getValue()).toEqual(['banana']);
+    expect(document.querySelector('.ms-multiselect__trigger')?.textContent).toContain('1 selected');
+    ms.open();
+    expect(document.querySelector('[data-value="apple"]')?.getAttribute('aria-disabled')).toBe(
+      'true'
+    );
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('syncs disabled and required state of the select', async () => {
+    ms = new MultiSelect(select, { observe: true });
+    const trigger = document.querySelector('.ms-multiselect__trigger') as HTMLButtonElement;
+
+    select.disabled = true;
+    select.required = true;
+    await flush();
+    expect(trigger.hasAttribute('disabled')).toBe(true);
+    expect(trigger.getAttribute('aria-required')).toBe('true');
+
+    select.disabled = false;
+    await flush();
+    expect(trigger.hasAttribute('disabled')).toBe(false);
+  });
+
+  it('keeps collapsed groups collapsed', async () => {
+    select.innerHTML = `
+      <optgroup label="Fruits"><option value="apple">Apple</option></optgroup>
+      <optgroup label="Vegetables"><option value="carrot">Carrot</option></optgroup>
+    `;
+    ms = new MultiSelect(select, { observe: true, nestedOptions: true, defaultExpanded: true });
+    ms.collapseGroup('__group_Fruits');
+    ms.open();
+
+    select.querySelector('optgroup')!.appendChild(new Option('Banana', 'banana'));
+    await flush();
+
+    expect(renderedValues('ms-multiselect')).toEqual([
+      '__group_Fruits',
+      '__group_Vegetables',
+      'carrot',
+    ]);
+  });
+
+  it('keeps the user selection when options change', async () => {
+    ms = new MultiSelect(select, { observe: true });
+    ms.open();
+    fireEvent.click(document.querySelector('[data-value="apple"]') as HTMLElement);
+
+    select.appendChild(new Option('Cherry', 'cherry'));
+    await flush();
+
+    expect(ms.getValue()).toEqual(['apple']);
+  });
+
+  it('does not re-parse after its own option mutations', async () => {
+    ms = new MultiSelect(select, { observe: true, nestedOptions: true, defaultExpanded: true });
+    ms.addOptions([
+      { value: 'fruits', text: 'Fruits', children: [{ value: 'kiwi', text: 'Kiwi' }] },
+    ]);
+    ms.addOptions([{ value: 'lime', text: 'Lime' }], { parent: 'kiwi' });
+    await flush();
+    ms.open();
+
+    expect(renderedValues('ms-multiselect')).toContain('fruits');
+  });
+
+  it('picks up native changes to a select built from data', async () => {
+    ms = new MultiSelect(select, {
+      observe: true,
+      data: [
+        { value: 'kiwi', text: 'Kiwi' },
+        { value: 'lime', text: 'Lime' },
+      ],
+    });
+    ms.open();
+
+    select.appendChild(new Option('Mango', 'mango'));
+    await flush();
+    expect(renderedValues('ms-multiselect')).toEqual(['kiwi', 'lime', 'mango']);
+
+    select.options[2]!.setAttribute('selected', '');
+    await flush();
+    expect(ms.getValue()).toEqual(['mango']);
+  });
+
+  it('stops observing after destroy', async () => {
+    ms = new MultiSelect(select, { observe: true });
+    ms.destroy();
+
+    select.appendChild(new Option('Cherry', 'cherry'));
+    await flush();
+
+    expect(document.querySelector('.ms-multiselect')).toBeNull();
+  });
+
+  it('does not observe by default', async () => {
+    ms = new MultiSelect(select);
+    ms.open();
+
+    select.appendChild(new Option('Cherry', 'cherry'));
+    await flush();
+
+    expect(renderedValues('ms-multiselect')).toEqual(['apple', 'banana']);
+  });
+});
+
+describe('Observe Mode - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="apple">Apple</option>
+      <option value="banana">Banana</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('syncs options and selection from the native select', async () => {
+    ss = new SingleSelect(select, { observe: true });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const cherry = new Option('Cherry', 'cherry', true, true);
+    select.appendChild(cherry);
+    await flush();
+
+    expect(ss.getValue()).toBe('cherry');
+    ss.open();
+    expect(renderedValues('ss-singleselect')).toEqual(['apple', 'banana', 'cherry']);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('syncs disabled state of the select', async () => {
+    ss = new SingleSelect(select, { observe: true });
+
+    select.disabled = true;
+    await flush();
+
+    const trigger = document.querySelector('.ss-singleselect__trigger') as HTMLButtonElement;
+    expect(trigger.disabled).toBe(true);
+  });
+});
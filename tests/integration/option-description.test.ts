@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+describe('Option Descriptions and Icons - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="ana" data-description="ana@example.com" data-icon="👩">Ana</option>
+      <option value="ben">Ben</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('renders the icon and description in the option row', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+
+    const row = document.querySelector('[data-value="ana"]') as HTMLElement;
+    expect(row.querySelector('.ms-multiselect__option-icon')?.textContent).toBe('👩');
+    expect(row.querySelector('.ms-multiselect__option-icon')?.getAttribute('aria-hidden')).toBe(
+      'true'
+    );
+    expect(row.querySelector('.ms-multiselect__option-text')?.textContent).toBe('Ana');
+    expect(row.querySelector('.ms-multiselect__option-description')?.textContent).toBe(
+      'ana@example.com'
+    );
+
+    const plain = document.querySelector('[data-value="ben"]') as HTMLElement;
+    expect(plain.querySelector('.ms-multiselect__option-icon')).toBeNull();
+    expect(plain.querySelector('.ms-multiselect__option-description')).toBeNull();
+    expect(plain.hasAttribute('aria-describedby')).toBe(false);
+  });
+
+  it('links the description with aria-describedby', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+
+    const row = document.querySelector('[data-value="ana"]') as HTMLElement;
+    const describedBy = row.getAttribute('aria-describedby');
+    expect(describedBy).toBeTruthy();
+    expect(document.getElementById(describedBy!)?.textContent).toBe('ana@example.com');
+  });
+
+  it('matches the description when searching', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+
+    input.value = 'example.com';
+    fireEvent.input(input);
+
+    const rows = document.querySelectorAll('.ms-multiselect__option');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]?.getAttribute('data-value')).toBe('ana');
+  });
+
+  it('supports description and icon in data and updateOption', () => {
+    ms = new MultiSelect(select, {
+      data: [{ value: 'cy', text: 'Cy', description: 'cy@example.com', icon: '🧑' }],
+    });
+
+    expect(select.options[0]?.dataset.description).toBe('cy@example.com');
+    expect(select.options[0]?.dataset.icon).toBe('🧑');
+
+    ms.updateOption('cy', { description: 'Team lead' });
+    ms.open();
+
+    expect(
+      document.querySelector('[data-value="cy"] .ms-multiselect__option-description')?.textContent
+    ).toBe('Team lead');
+    expect(select.options[0]?.dataset.description).toBe('Team lead');
+  });
+});
+
+describe('Option Descriptions and Icons - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="free" data-description="For individuals" data-icon="○">Free</option>
+      <option value="pro" data-description="For growing teams" data-icon="★">Pro</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('renders the description with aria-describedby and matches it in search', () => {
+    ss = new SingleSelect(select, { searchDebounce: 0 });
+    ss.open();
+
+    const row = document.querySelector('[data-value="pro"]') as HTMLElement;
+    expect(row.querySelector('.ss-singleselect__option-icon')?.textContent).toBe('★');
+    const describedBy = row.getAttribute('aria-describedby');
+    expect(document.getElementById(describedBy!)?.textContent).toBe('For growing teams');
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = 'teams';
+    fireEvent.input(input);
+
+    const rows = document.querySelectorAll('.ss-singleselect__option');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]?.getAttribute('data-value')).toBe('pro');
+  });
+});
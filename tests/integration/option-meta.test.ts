@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { MultiSelectEventDetail, OptionData, SingleSelectEventDetail } from '@/types';
+
+describe('Option Metadata - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="tee" data-sku="TS-001" data-color="red">T-Shirt</option>
+      <option value="mug" data-sku="MG-042" data-color="blue">Mug</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('exposes data-* attributes in change event details', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    fireEvent.click(document.querySelector('[data-value="mug"]') as HTMLElement);
+
+    const detail = (onChange.mock.calls[0]![0] as CustomEvent<MultiSelectEventDetail>).detail;
+    expect(detail.options[0]?.meta).toEqual({ sku: 'MG-042', color: 'blue' });
+  });
+
+  it('passes metadata to selectedFormat', () => {
+    select.options[0]!.selected = true;
+    ms = new MultiSelect(select, {
+      selectedDisplayMode: 'custom',
+      selectedFormat: (options: OptionData[]) => options.map((o) => o.meta.sku).join(', '),
+    });
+
+    expect(document.querySelector('.ms-multiselect__trigger')?.textContent).toContain('TS-001');
+  });
+
+  it('matches metadata keys listed in searchMetaKeys', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchMetaKeys: ['sku'] });
+    ms.open();
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+
+    input.value = 'MG-0';
+    fireEvent.input(input);
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(1);
+
+    // Keys not listed are not searched
+    input.value = 'blue';
+    fireEvent.input(input);
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(0);
+  });
+
+  it('writes metadata from data to the native select', () => {
+    ms = new MultiSelect(select, {
+      data: [{ value: 'cap', text: 'Cap', meta: { sku: 'CP-007' } }],
+    });
+
+    expect(select.options[0]?.dataset.sku).toBe('CP-007');
+    ms.open();
+    ms.selectAll();
+    expect(ms.getValue()).toEqual(['cap']);
+  });
+
+  it('merges metadata with updateOption', () => {
+    ms = new MultiSelect(select);
+    ms.updateOption('tee', { meta: { color: 'green', size: 'XL' } });
+
+    expect(select.options[0]?.dataset).toMatchObject({ sku: 'TS-001', color: 'green', size: 'XL' });
+  });
+});
+
+describe('Option Metadata - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="">Choose...</option>
+      <option value="ada" data-avatar="/ada.png">Ada</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('exposes data-* attributes in change event details', () => {
+    ss = new SingleSelect(select);
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    ss.setValue('ada');
+
+    const detail = (onChange.mock.calls[0]![0] as CustomEvent<SingleSelectEventDetail>).detail;
+    expect(detail.option?.meta).toEqual({ avatar: '/ada.png' });
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+function renderedValues(prefix: string): (string | null)[] {
+  return Array.from(document.querySelectorAll(`.${prefix}__option`)).map((option) =>
+    option.getAttribute('data-value')
+  );
+}
+
+function nativeValues(select: HTMLSelectElement): string[] {
+  return Array.from(select.options).map((option) => option.value);
+}
+
+describe('Option Mutation - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="apple" selected>Apple</option>
+      <option value="banana">Banana</option>
+      <option value="cherry">Cherry</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  describe('addOptions', () => {
+    it('appends options to the native select and list', () => {
+      ms = new MultiSelect(select);
+      ms.open();
+
+      ms.addOptions([{ value: 'date', text: 'Date' }]);
+
+      expect(nativeValues(select)).toEqual(['apple', 'banana', 'cherry', 'date']);
+      expect(renderedValues('ms-multiselect')).toEqual(['apple', 'banana', 'cherry', 'date']);
+    });
+
+    it('inserts options at an index without re-rendering existing rows', () => {
+      ms = new MultiSelect(select);
+      ms.open();
+      const bananaEl = document.querySelector('[data-value="banana"]');
+
+      ms.addOptions([{ value: 'apricot', text: 'Apricot' }], { index: 1 });
+
+      expect(nativeValues(select)).toEqual(['apple', 'apricot', 'banana', 'cherry']);
+      expect(renderedValues('ms-multiselect')).toEqual(['apple', 'apricot', 'banana', 'cherry']);
+      expect(document.querySelector('[data-value="banana"]')).toBe(bananaEl);
+    });
+
+    it('selects options added as selected and emits change', () => {
+      ms = new MultiSelect(select);
+      const onChange = vi.fn();
+      select.addEventListener('change', onChange);
+
+      ms.addOptions([{ value: 'date', text: 'Date', selected: true }]);
+
+      expect(ms.getValue()).toEqual(['apple', 'date']);
+      expect(select.options[3]?.selected).toBe(true);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores values that already exist', () => {
+      ms = new MultiSelect(select);
+      ms.addOptions([{ value: 'apple', text: 'Another Apple' }]);
+
+      expect(nativeValues(select)).toEqual(['apple', 'banana', 'cherry']);
+    });
+
+    it('keeps the search filter applied', () => {
+      ms = new MultiSelect(select, { searchDebounce: 0 });
+      ms.open();
+      const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+      input.value = 'an';
+      fireEvent.input(input);
+
+      ms.addOptions([
+        { value: 'mango', text: 'Mango' },
+        { value: 'kiwi', text: 'Kiwi' },
+      ]);
+
+      expect(renderedValues('ms-multiselect')).toEqual(['banana', 'mango']);
+    });
+
+    it('adds children under a parent option', () => {
+      select.innerHTML = `
+        <optgroup label="Fruits">
+          <option value="apple" selected>Apple</option>
+        </optgroup>
+        <optgroup label="Vegetables">
+          <option value="carrot">Carrot</option>
+        </optgroup>
+      `;
+      ms = new MultiSelect(select, {
+        nestedOptions: true,
+        defaultExpanded: true,
+        showParentCheckbox: true,
+      });
+      ms.open();
+
+      ms.addOptions([{ value: 'banana', text: 'Banana' }], { parent: '__group_Fruits' });
+
+      expect(nativeValues(select)).toEqual(['apple', 'banana', 'carrot']);
+      expect(select.options[1]?.parentElement?.getAttribute('label')).toBe('Fruits');
+      expect(renderedValues('ms-multiselect')).toEqual([
+        '__group_Fruits',
+        'apple',
+        'banana',
+        '__group_Vegetables',
+        'carrot',
+      ]);
+
+      // Parent is now partially selected
+      const parentCheckbox = document.querySelector(
+        '[data-value="__group_Fruits"] .ms-multiselect__checkbox'
+      ) as HTMLInputElement;
+      expect(parentCheckbox.indeterminate).toBe(true);
+    });
+
+    it('keeps collapsed groups collapsed', () => {
+      select.innerHTML = `
+        <optgroup label="Fruits">
+          <option value="apple">Apple</option>
+        </optgroup>
+      `;
+      ms = new MultiSelect(select, { nestedOptions: true });
+      ms.open();
+
+      ms.addOptions([{ value: 'banana', text: 'Banana' }], { parent: '__group_Fruits' });
+
+      expect(renderedValues('ms-multiselect')).toEqual(['__group_Fruits']);
+    });
+  });
+
+  describe('removeOptions', () => {
+    it('removes options and their selection', () => {
+      ms = new MultiSelect(select);
+      ms.open();
+      const onChange = vi.fn();
+      select.addEventListener('change', onChange);
+
+      ms.removeOptions(['apple', 'cherry']);
+
+      expect(nativeValues(select)).toEqual(['banana']);
+      expect(renderedValues('ms-multiselect')).toEqual(['banana']);
+      expect(ms.getValue()).toEqual([]);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('removes a group with its children and optgroup', () => {
+      select.innerHTML = `
+        <optgroup label="Fruits">
+          <option value="apple">Apple</option>
+        </optgroup>
+        <option value="other">Other</option>
+      `;
+      ms = new MultiSelect(select, { nestedOptions: true, defaultExpanded: true });
+      ms.open();
+
+      ms.removeOptions(['__group_Fruits']);
+
+      expect(select.querySelector('optgroup')).toBeNull();
+      expect(renderedValues('ms-multiselect')).toEqual(['other']);
+    });
+
+    it('keeps focus on the same option', () => {
+      ms = new MultiSelect(select);
+      ms.open();
+      const dropdown = document.querySelector('.ms-multiselect__dropdown') as HTMLElement;
+      fireEvent.keyDown(dropdown, { key: 'End' });
+
+      ms.removeOptions(['apple']);
+
+      const focused = document.querySelector('.ms-multiselect__option--focused');
+      expect(focused?.getAttribute('data-value')).toBe('cherry');
+    });
+  });
+
+  describe('updateOption', () => {
+    it('updates text in the list and native select', () => {
+      ms = new MultiSelect(select);
+      ms.open();
+
+      ms.updateOption('banana', { text: 'Plantain' });
+
+      expect(select.options[1]?.text).toBe('Plantain');
+      expect(document.querySelector('[data-value="banana"]')?.textContent).toContain('Plantain');
+    });
+
+    it('updates selected state', () => {
+      ms = new MultiSelect(select);
+      ms.updateOption('banana', { selected: true });
+      ms.updateOption('apple', { selected: false });
+
+      expect(ms.getValue()).toEqual(['banana']);
+      expect(select.options[0]?.selected).toBe(false);
+      expect(select.options[1]?.selected).toBe(true);
+    });
+
+    it('disables options with setOptionDisabled', () => {
+      ms = new MultiSelect(select);
+      ms.open();
+
+      ms.setOptionDisabled('cherry', true);
+
+      expect(select.options[2]?.disabled).toBe(true);
+      const cherry = document.querySelector('[data-value="cherry"]');
+      expect(cherry?.getAttribute('aria-disabled')).toBe('true');
+    });
+  });
+
+  it('keeps mutations when refreshed in data mode', () => {
+    ms = new MultiSelect(select, { data: [{ value: 'a', text: 'A' }] });
+    ms.addOptions([{ value: 'b', text: 'B' }]);
+    ms.refresh();
+    ms.open();
+
+    expect(renderedValues('ms-multiselect')).toEqual(['a', 'b']);
+  });
+});
+
+describe('Option Mutation - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="apple" selected>Apple</option>
+      <option value="banana">Banana</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('adds options and selects an option added as selected', () => {
+    ss = new SingleSelect(select);
+    ss.open();
+
+    ss.addOptions([{ value: 'cherry', text: 'Cherry', selected: true }], { index: 0 });
+
+    expect(nativeValues(select)).toEqual(['cherry', 'apple', 'banana']);
+    expect(renderedValues('ss-singleselect')).toEqual(['cherry', 'apple', 'banana']);
+    expect(ss.getValue()).toBe('cherry');
+    expect(select.value).toBe('cherry');
+    expect(document.querySelector('[data-value="apple"]')?.getAttribute('aria-selected')).toBe(
+      'false'
+    );
+  });
+
+  it('clears the selection when the selected option is removed', () => {
+    ss = new SingleSelect(select);
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    ss.removeOptions(['apple']);
+
+    expect(ss.getValue()).toBeNull();
+    expect(nativeValues(select)).toEqual(['banana']);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('updates and disables options', () => {
+    ss = new SingleSelect(select);
+    ss.open();
+
+    ss.updateOption('banana', { text: 'Plantain', selected: true });
+    ss.setOptionDisabled('apple', true);
+
+    expect(ss.getValue()).toBe('banana');
+    expect(select.options[0]?.disabled).toBe(true);
+    expect(document.querySelector('[data-value="banana"]')?.textContent).toContain('Plantain');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import type { MultiSelectPasteEventDetail } from '@/types';
+
+describe('Paste to Select - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const getInput = (): HTMLInputElement =>
+    document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+
+  const paste = (text: string): boolean =>
+    fireEvent.paste(getInput(), {
+      clipboardData: { getData: () => text },
+    });
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="us">United States</option>
+      <option value="uk">United Kingdom</option>
+      <option value="fr">France</option>
+      <option value="de">Germany</option>
+      <option value="es" disabled>Spain</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('selects all pasted values and texts with a single change event', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const notCanceled = paste('us\nFrance\tde');
+
+    expect(notCanceled).toBe(false);
+    expect(ms.getValue()).toEqual(['us', 'fr', 'de']);
+    expect(Array.from(select.selectedOptions).map((option) => option.value)).toEqual([
+      'us',
+      'fr',
+      'de',
+    ]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(getInput().value).toBe('');
+  });
+
+  it('keeps the current selection and reports unmatched tokens', () => {
+    select.querySelector<HTMLOptionElement>('option[value="uk"]')!.selected = true;
+    ms = new MultiSelect(select);
+    ms.open();
+    const onPaste = vi.fn();
+    select.addEventListener('multiselect:paste', onPaste);
+
+    paste('fr, Atlantis, Spain');
+
+    expect(ms.getValue()).toEqual(['uk', 'fr']);
+    const detail = (onPaste.mock.calls[0]![0] as CustomEvent<MultiSelectPasteEventDetail>).detail;
+    expect(detail.tokens).toEqual(['fr', 'Atlantis', 'Spain']);
+    expect(detail.matched).toEqual(['fr']);
+    expect(detail.unmatched).toEqual(['Atlantis', 'Spain']);
+    expect(document.querySelector('.ms-multiselect__live-region')?.textContent).toBe(
+      '1 item selected from pasted list. No match for: Atlantis, Spain.'
+    );
+  });
+
+  it('prefers exact matches and falls back to the search strategy', () => {
+    ms = new MultiSelect(select, { searchStrategy: 'startsWith' });
+    ms.open();
+
+    paste('uk,United');
+
+    // "uk" matches exactly, "United" matches both countries by prefix
+    expect(ms.getValue()).toEqual(['uk', 'us']);
+  });
+
+  it('does not emit change when nothing new is selected', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    paste('Atlantis,Narnia');
+
+    expect(ms.getValue()).toEqual([]);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('leaves single-term pastes to the search input', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+
+    expect(paste('France')).toBe(true);
+    expect(ms.getValue()).toEqual([]);
+  });
+
+  it('can be turned off with pasteSelection', () => {
+    ms = new MultiSelect(select, { pasteSelection: false });
+    ms.open();
+
+    expect(paste('us,fr')).toBe(true);
+    expect(ms.getValue()).toEqual([]);
+  });
+});
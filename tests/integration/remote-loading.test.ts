@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { OptionInput, OptionLoaderContext } from '@/types';
+
+const FRUITS: OptionInput[] = [
+  { value: 'apple', text: 'Apple' },
+  { value: 'banana', text: 'Banana' },
+  { value: 'cherry', text: 'Cherry' },
+];
+
+function filterFruits(query: string): OptionInput[] {
+  return FRUITS.filter((fruit) => fruit.text.toLowerCase().includes(query.toLowerCase()));
+}
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function search(input: HTMLInputElement, query: string): void {
+  input.value = query;
+  input.dispatchEvent(new Event('input'));
+}
+
+describe('MultiSelect - Remote Loading', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('loads options when the dropdown opens', async () => {
+    const load = vi.fn((query: string) => Promise.resolve(filterFruits(query)));
+    ms = new MultiSelect(select, { load, searchDebounce: 0 });
+
+    ms.open();
+    expect(load).toHaveBeenCalledWith('', expect.objectContaining({ page: 1 }));
+    expect(document.querySelector('.ms-multiselect__loading')?.textContent).toBe('Loading...');
+
+    await flush();
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(3);
+  });
+
+  it('loads options as the user types and emits search event', async () => {
+    const load = vi.fn((query: string) => Promise.resolve(filterFruits(query)));
+    ms = new MultiSelect(select, { load, searchDebounce: 0 });
+    ms.open();
+    await flush();
+
+    const handler = vi.fn();
+    select.addEventListener('multiselect:search', handler);
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    search(input, 'an');
+    await flush();
+
+    expect(load).toHaveBeenLastCalledWith('an', expect.anything());
+    const options = document.querySelectorAll('.ms-multiselect__option');
+    expect(options).toHaveLength(1);
+    expect(options[0]?.getAttribute('data-value')).toBe('banana');
+    expect(handler.mock.calls[0]?.[0].detail).toMatchObject({ query: 'an', resultsCount: 1 });
+  });
+
+  it('aborts the previous request when a new query is typed', async () => {
+    const signals: AbortSignal[] = [];
+    const load = vi.fn((query: string, { signal }: OptionLoaderContext) => {
+      signals.push(signal);
+      return Promise.resolve(filterFruits(query));
+    });
+    ms = new MultiSelect(select, { load, searchDebounce: 0 });
+    ms.open();
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    search(input, 'a');
+    search(input, 'ch');
+    await flush();
+
+    expect(signals[0]?.aborted).toBe(true);
+    expect(signals[1]?.aborted).toBe(true);
+    expect(signals[2]?.aborted).toBe(false);
+    const options = document.querySelectorAll('.ms-multiselect__option');
+    expect(options).toHaveLength(1);
+    expect(options[0]?.getAttribute('data-value')).toBe('cherry');
+  });
+
+  it('renders error state when loading fails', async () => {
+    const load = vi.fn(() => Promise.reject(new Error('Network error')));
+    ms = new MultiSelect(select, { load, loadErrorText: 'Could not load' });
+    ms.open();
+    await flush();
+
+    expect(document.querySelector('.ms-multiselect__error')?.textContent).toBe('Could not load');
+  });
+
+  it('renders empty state when no results are returned', async () => {
+    const load = vi.fn(() => Promise.resolve([]));
+    ms = new MultiSelect(select, { load, searchDebounce: 0 });
+    ms.open();
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    search(input, 'zzz');
+    await flush();
+
+    expect(document.querySelector('.ms-multiselect__empty')?.textContent).toBe('No results found');
+  });
+
+  it('keeps selected remote options in the native select', async () => {
+    const load = vi.fn((query: string) => Promise.resolve(filterFruits(query)));
+    ms = new MultiSelect(select, { load, searchDebounce: 0 });
+    ms.open();
+    await flush();
+
+    (document.querySelector('[data-value="apple"]') as HTMLElement).click();
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    search(input, 'ban');
+    await flush();
+    (document.querySelector('[data-value="banana"]') as HTMLElement).click();
+
+    expect(ms.getValue()).toEqual(['apple', 'banana']);
+    expect(Array.from(select.selectedOptions).map((o) => o.value)).toEqual(['apple', 'banana']);
+  });
+});
+
+describe('SingleSelect - Remote Loading', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('loads options as the user types', async () => {
+    const load = vi.fn((query: string) => Promise.resolve(filterFruits(query)));
+    ss = new SingleSelect(select, { load, searchDebounce: 0 });
+    ss.open();
+    await flush();
+    expect(document.querySelectorAll('.ss-singleselect__option')).toHaveLength(3);
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    search(input, 'err');
+    await flush();
+
+    const options = document.querySelectorAll('.ss-singleselect__option');
+    expect(options).toHaveLength(1);
+    expect(options[0]?.getAttribute('data-value')).toBe('cherry');
+  });
+
+  it('keeps the selected remote option in the native select', async () => {
+    const load = vi.fn((query: string) => Promise.resolve(filterFruits(query)));
+    ss = new SingleSelect(select, { load, searchDebounce: 0, closeOnSelect: false });
+    ss.open();
+    await flush();
+
+    (document.querySelector('[data-value="banana"]') as HTMLElement).click();
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    search(input, 'che');
+    await flush();
+
+    expect(ss.getValue()).toBe('banana');
+    expect(select.value).toBe('banana');
+    expect(document.querySelector('.ss-singleselect__trigger-text')?.textContent).toBe('Banana');
+  });
+
+  it('aborts pending request on destroy', () => {
+    let signal: AbortSignal | undefined;
+    const load = vi.fn((_query: string, context: OptionLoaderContext) => {
+      signal = context.signal;
+      return new Promise<OptionInput[]>(() => {});
+    });
+    ss = new SingleSelect(select, { load });
+    ss.open();
+    ss.destroy();
+
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('Remote Loading - Pagination', () => {
+  let select: HTMLSelectElement;
+
+  const ITEMS: OptionInput[] = Array.from({ length: 25 }, (_, i) => ({
+    value: `item-${String(i)}`,
+    text: `Item ${String(i)}`,
+  }));
+
+  function pagedLoad(_query: string, { offset }: OptionLoaderContext) {
+    const options = ITEMS.slice(offset, offset + 10);
+    return Promise.resolve({
+      options,
+      hasMore: offset + 10 < ITEMS.length,
+      cursor: `after-${String(offset + 10)}`,
+    });
+  }
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    select.remove();
+  });
+
+  it('loads the next page when scrolled to the bottom', async () => {
+    const load = vi.fn(pagedLoad);
+    const ms = new MultiSelect(select, { load });
+    ms.open();
+    await flush();
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(10);
+
+    const list = document.querySelector('.ms-multiselect__options') as HTMLElement;
+    list.dispatchEvent(new Event('scroll'));
+    expect(document.querySelector('.ms-multiselect__loading-more')?.textContent).toBe(
+      'Loading more...'
+    );
+    expect(document.querySelector('.ms-multiselect__live-region')?.textContent).toBe(
+      'Loading more...'
+    );
+    await flush();
+
+    expect(load).toHaveBeenLastCalledWith(
+      '',
+      expect.objectContaining({ page: 2, offset: 10, cursor: 'after-10' })
+    );
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(20);
+    expect(document.querySelector('.ms-multiselect__loading-more')).toBeNull();
+    ms.destroy();
+  });
+
+  it('loads more pages until the list is filled', async () => {
+    const load = vi.fn(pagedLoad);
+    const ms = new MultiSelect(select, { load });
+
+    // Fake layout: a 200px list with 15px rows
+    const list = document.querySelector('.ms-multiselect__options') as HTMLElement;
+    Object.defineProperty(list, 'clientHeight', { configurable: true, value: 200 });
+    Object.defineProperty(list, 'scrollHeight', {
+      configurable: true,
+      get: () => list.querySelectorAll('.ms-multiselect__option').length * 15,
+    });
+
+    ms.open();
+    await flush();
+    await flush();
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(20);
+    ms.destroy();
+  });
+
+  it('stops requesting when there are no more pages', async () => {
+    const load = vi.fn(pagedLoad);
+    const ms = new MultiSelect(select, { load });
+    ms.open();
+    await flush();
+
+    const list = document.querySelector('.ms-multiselect__options') as HTMLElement;
+    for (let i = 0; i < 4; i++) {
+      list.dispatchEvent(new Event('scroll'));
+      await flush();
+    }
+
+    expect(load).toHaveBeenCalledTimes(3);
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(25);
+    ms.destroy();
+  });
+
+  it('keeps the focused option when a page is appended', async () => {
+    const ms = new MultiSelect(select, { load: pagedLoad });
+    ms.open();
+    await flush();
+
+    const dropdown = document.querySelector('.ms-multiselect__dropdown') as HTMLElement;
+    dropdown.dispatchEvent(new KeyboardEvent('keydown', { key: 'End', bubbles: true }));
+
+    const list = document.querySelector('.ms-multiselect__options') as HTMLElement;
+    list.dispatchEvent(new Event('scroll'));
+    await flush();
+
+    const focused = document.querySelector('.ms-multiselect__option--focused');
+    expect(focused?.getAttribute('data-value')).toBe('item-9');
+    ms.destroy();
+  });
+
+  it('appends pages in virtual scroll mode', async () => {
+    const single = document.createElement('select');
+    document.body.appendChild(single);
+    const ss = new SingleSelect(single, {
+      load: pagedLoad,
+      virtualScroll: true,
+    });
+    ss.open();
+    await flush();
+
+    const list = document.querySelector('.ss-singleselect__options') as HTMLElement;
+    list.dispatchEvent(new Event('scroll'));
+    await flush();
+
+    const rows = document.querySelectorAll('.ss-singleselect__option');
+    expect(rows[0]?.getAttribute('aria-setsize')).toBe('20');
+    ss.destroy();
+    single.remove();
+  });
+});
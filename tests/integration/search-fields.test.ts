@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { MultiSelectSearchEventDetail, OptionData } from '@/types';
+
+const COUNTRIES = `
+  <option value="US" data-keywords="usa america" data-description="North America">United States</option>
+  <option value="GB" data-keywords="uk britain">United Kingdom</option>
+  <option value="DE" data-keywords="deutschland">Germany</option>
+`;
+
+describe('Search Fields - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): (string | null)[] => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+    return Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = COUNTRIES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('searches text and description by default', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    expect(search('north')).toEqual(['US']);
+    expect(search('usa')).toEqual([]);
+    expect(search('de')).toEqual([]);
+  });
+
+  it('searches the configured fields, including data-* keys', () => {
+    ms = new MultiSelect(select, {
+      searchDebounce: 0,
+      searchFields: ['text', 'value', 'data-keywords'],
+    });
+    ms.open();
+
+    expect(search('usa')).toEqual(['US']);
+    expect(search('de')).toEqual(['DE']);
+    expect(search('britain')).toEqual(['GB']);
+    // Description is no longer searched
+    expect(search('north')).toEqual([]);
+  });
+
+  it('adds searchMetaKeys to the search fields', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchMetaKeys: ['keywords'] });
+    ms.open();
+
+    expect(search('deutschland')).toEqual(['DE']);
+    expect(search('united')).toEqual(['US', 'GB']);
+  });
+
+  it('uses searchFilter instead of field matching', () => {
+    const searchFilter = vi.fn(
+      (option: OptionData, query: string) => option.value.toLowerCase() === query
+    );
+    ms = new MultiSelect(select, { searchDebounce: 0, searchFilter });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    expect(search('gb')).toEqual(['GB']);
+    expect(searchFilter).toHaveBeenCalledWith(expect.objectContaining({ value: 'US' }), 'gb');
+
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<MultiSelectSearchEventDetail>).detail;
+    expect(detail.resultsCount).toBe(1);
+  });
+
+  it('ranks results by numeric searchFilter scores', () => {
+    ms = new MultiSelect(select, {
+      searchDebounce: 0,
+      searchFilter: (option: OptionData) => ({ US: 0.2, GB: 0, DE: 0.9 })[option.value] ?? 0,
+    });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    expect(search('x')).toEqual(['DE', 'US']);
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<MultiSelectSearchEventDetail>).detail;
+    expect(detail.results.map((result) => result.score)).toEqual([0.9, 0.2]);
+  });
+});
+
+describe('Search Fields - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  const search = (query: string): (string | null)[] => {
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+    return Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = COUNTRIES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('searches the configured fields', () => {
+    ss = new SingleSelect(select, { searchDebounce: 0, searchFields: ['text', 'data-keywords'] });
+    ss.open();
+
+    expect(search('usa')).toEqual(['US']);
+  });
+
+  it('uses searchFilter instead of field matching', () => {
+    ss = new SingleSelect(select, {
+      searchDebounce: 0,
+      searchFilter: (option: OptionData, query: string) => option.value === query.toUpperCase(),
+    });
+    ss.open();
+
+    expect(search('de')).toEqual(['DE']);
+  });
+});
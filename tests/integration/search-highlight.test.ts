@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+describe('Search Highlight - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const marksOf = (value: string): string[] =>
+    Array.from(
+      document.querySelectorAll(
+        `.ms-multiselect__option[data-value="${value}"] .ms-multiselect__option-text mark`
+      )
+    ).map((mark) => mark.textContent ?? '');
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="sp">São Paulo</option>
+      <option value="ny">New York</option>
+      <option value="xss">&lt;img src=x onerror=alert(1)&gt; York</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('wraps the matched text in a highlight mark', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    search('york');
+
+    const mark = document.querySelector('[data-value="ny"] mark') as HTMLElement;
+    expect(mark.className).toBe('ms-multiselect__highlight');
+    expect(mark.textContent).toBe('York');
+    expect(mark.parentElement?.textContent).toBe('New York');
+  });
+
+  it('highlights the original characters of accent-insensitive matches', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    search('sao');
+
+    expect(marksOf('sp')).toEqual(['São']);
+  });
+
+  it('builds highlights from text nodes only', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    search('york');
+
+    const text = document.querySelector('[data-value="xss"] .ms-multiselect__option-text');
+    expect(text?.querySelector('img')).toBeNull();
+    expect(text?.textContent).toBe('<img src=x onerror=alert(1)> York');
+    expect(marksOf('xss')).toEqual(['York']);
+  });
+
+  it('highlights every strategy, including fuzzy subsequences', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchStrategy: 'fuzzy' });
+    ms.open();
+
+    search('nyk');
+
+    expect(marksOf('ny')).toEqual(['N', 'Y', 'k']);
+  });
+
+  it('removes highlights when the search is cleared', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    search('york');
+    search('');
+
+    expect(document.querySelector('.ms-multiselect__highlight')).toBeNull();
+  });
+
+  it('can be disabled with highlightMatches', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, highlightMatches: false });
+    ms.open();
+
+    search('york');
+
+    expect(document.querySelector('.ms-multiselect__highlight')).toBeNull();
+  });
+
+  it('highlights matching children of nested parents', () => {
+    select.innerHTML = `
+      <optgroup label="Brazil">
+        <option value="sp">São Paulo</option>
+        <option value="rio">Rio de Janeiro</option>
+      </optgroup>
+    `;
+    ms = new MultiSelect(select, { searchDebounce: 0, nestedOptions: true });
+    ms.open();
+
+    search('paulo');
+
+    expect(marksOf('sp')).toEqual(['Paulo']);
+    expect(marksOf('rio')).toEqual([]);
+  });
+});
+
+describe('Search Highlight - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="sp">São Paulo</option>
+      <option value="ny">New York</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('wraps the matched text in a highlight mark', () => {
+    ss = new SingleSelect(select, { searchDebounce: 0, searchStrategy: 'startsWith' });
+    ss.open();
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = 'new';
+    fireEvent.input(input);
+
+    const mark = document.querySelector('.ss-singleselect__highlight');
+    expect(mark?.tagName).toBe('MARK');
+    expect(mark?.textContent).toBe('New');
+  });
+});
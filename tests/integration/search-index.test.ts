@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { MultiSelectSearchEventDetail, SingleSelectSearchEventDetail } from '@/types';
+
+describe('Search Index - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const renderedValues = (): (string | null)[] =>
+    Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+
+  // Custom normalize that records every text it normalizes
+  const normalized: string[] = [];
+  const normalize = (text: string): string => {
+    normalized.push(text);
+    return text.toLowerCase();
+  };
+
+  beforeEach(() => {
+    normalized.length = 0;
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="us">United States</option>
+      <option value="uk">United Kingdom</option>
+      <option value="fr" data-description="Europe">France</option>
+      <option value="de">Germany</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('normalizes option text once across queries', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, highlightMatches: false, normalize });
+    ms.open();
+
+    search('united');
+    search('unite');
+    search('kingdom');
+
+    // Queries are lowercase here, so capitalized texts are option fields
+    const optionTexts = normalized.filter((text) => text !== text.toLowerCase());
+    expect(optionTexts).toEqual(['United States', 'United Kingdom', 'France', 'Europe', 'Germany']);
+    expect(renderedValues()).toEqual(['uk']);
+  });
+
+  it('re-normalizes only changed options', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, highlightMatches: false, normalize });
+    ms.open();
+    search('an');
+
+    normalized.length = 0;
+    ms.updateOption('de', { text: 'Deutschland' });
+    ms.addOptions([{ value: 'ca', text: 'Canada' }]);
+    search('and');
+
+    // Queries are lowercase here, so capitalized texts are option fields
+    const optionTexts = normalized.filter((text) => text !== text.toLowerCase());
+    expect(optionTexts).toEqual(['Deutschland', 'Canada']);
+    expect(renderedValues()).toEqual(['de']);
+  });
+
+  it('drops removed options and picks up refreshed ones', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+    search('ger');
+    expect(renderedValues()).toEqual(['de']);
+
+    ms.removeOptions(['de']);
+    search('germ');
+    expect(renderedValues()).toEqual([]);
+
+    select.insertAdjacentHTML('beforeend', '<option value="at">Austria</option>');
+    ms.refresh();
+    ms.open();
+    search('stri');
+    expect(renderedValues()).toEqual(['at']);
+  });
+
+  it('matches like a full scan for each strategy', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchStrategy: 'startsWith' });
+    ms.open();
+
+    search('un');
+    expect(renderedValues()).toEqual(['us', 'uk']);
+    search('kingdom');
+    expect(renderedValues()).toEqual([]);
+    search('eur');
+    expect(renderedValues()).toEqual(['fr']);
+  });
+
+  it('matches substrings shorter than an n-gram', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    search('y');
+    expect(renderedValues()).toEqual(['de']);
+    search('ni');
+    expect(renderedValues()).toEqual(['us', 'uk']);
+  });
+
+  it('reports search timing in the event detail', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    search('fra');
+    search('fran');
+
+    const [first, second] = onSearch.mock.calls.map(
+      (call) => (call[0] as CustomEvent<MultiSelectSearchEventDetail>).detail.timing
+    );
+    expect(first!.index).toBeGreaterThanOrEqual(0);
+    expect(first!.match).toBeGreaterThanOrEqual(0);
+    // The index is already up to date for the second query
+    expect(second!.index).toBe(0);
+  });
+});
+
+describe('Search Index - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="us">United States</option>
+      <option value="fr">France</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('searches through the index and reports timing', () => {
+    ss = new SingleSelect(select, { searchDebounce: 0 });
+    ss.open();
+    const onSearch = vi.fn();
+    select.addEventListener('singleselect:search', onSearch);
+
+    search('ance');
+    ss.addOptions([{ value: 'ie', text: 'Ireland' }]);
+    search('land');
+
+    const values = Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+    expect(values).toEqual(['ie']);
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<SingleSelectSearchEventDetail>)
+      .detail;
+    expect(detail.resultsCount).toBe(1);
+    expect(detail.timing.index).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+const CITIES = `
+  <option value="sp">São Paulo</option>
+  <option value="ist">İstanbul</option>
+  <option value="nyc">New York, N.Y.</option>
+  <option value="zrh">Zürich</option>
+`;
+
+describe('Search Normalization - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): (string | null)[] => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+    return Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = CITIES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('ignores diacritics in options and queries', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0 });
+    ms.open();
+
+    expect(search('sao paulo')).toEqual(['sp']);
+    expect(search('zurich')).toEqual(['zrh']);
+    expect(search('Zü')).toEqual(['zrh']);
+  });
+
+  it('folds case with the configured locale', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, locale: 'tr' });
+    ms.open();
+
+    expect(search('istanbul')).toEqual(['ist']);
+    expect(search('İSTANBUL')).toEqual(['ist']);
+  });
+
+  it('can ignore punctuation and whitespace', () => {
+    ms = new MultiSelect(select, {
+      searchDebounce: 0,
+      searchIgnorePunctuation: true,
+      searchIgnoreWhitespace: true,
+    });
+    ms.open();
+
+    expect(search('newyork ny')).toEqual(['nyc']);
+  });
+
+  it('uses a custom normalize function for matching', () => {
+    ms = new MultiSelect(select, {
+      searchDebounce: 0,
+      normalize: (text: string) => text.replace(/[^A-Z]/g, ''),
+    });
+    ms.open();
+
+    // Only capitals are compared: "New York, N.Y." becomes "NYNY"
+    expect(search('NY')).toEqual(['nyc']);
+    // A lowercase query normalizes to an empty string, which matches everything
+    expect(search('new')).toEqual(['sp', 'ist', 'nyc', 'zrh']);
+  });
+
+  it('applies the normalization to pasted lists', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    fireEvent.paste(input, { clipboardData: { getData: () => 'Sao Paulo, zurich' } });
+
+    expect(ms.getValue()).toEqual(['sp', 'zrh']);
+  });
+});
+
+describe('Search Normalization - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = CITIES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('ignores diacritics in search', () => {
+    ss = new SingleSelect(select, { searchDebounce: 0 });
+    ss.open();
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = 'sao';
+    fireEvent.input(input);
+
+    const values = Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+    expect(values).toEqual(['sp']);
+  });
+
+  it('commits combobox text that differs only in accents', () => {
+    ss = new SingleSelect(select, { combobox: true, searchDebounce: 0 });
+
+    const input = document.querySelector('.ss-singleselect__trigger') as HTMLInputElement;
+    input.value = 'Zurich';
+    fireEvent.input(input);
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ss.getValue()).toBe('zrh');
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import type { OptionInput } from '@/types';
+
+const FRUITS: OptionInput[] = [
+  { value: 'apple', text: 'Apple' },
+  { value: 'banana', text: 'Banana' },
+  { value: 'cherry', text: 'Cherry' },
+];
+
+const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Search Status - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const getStatus = (): HTMLElement | null => document.querySelector('.ms-multiselect__status');
+
+  const getLiveRegion = (): HTMLElement =>
+    document.querySelector('.ms-multiselect__live-region') as HTMLElement;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="apple">Apple</option>
+      <option value="banana">Banana</option>
+      <option value="cherry">Cherry</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('asks for more characters until the query reaches searchMinLength', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchMinLength: 3 });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    search('a');
+    expect(getStatus()?.getAttribute('data-status')).toBe('too-short');
+    expect(getStatus()?.textContent).toBe('Type 2 more characters');
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(0);
+    expect(getLiveRegion().textContent).toBe('Type 2 more characters');
+
+    search('ap');
+    expect(getStatus()?.textContent).toBe('Type 1 more character');
+
+    search('app');
+    expect(getStatus()).toBeNull();
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(1);
+    expect(onSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists every option for an empty query', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchMinLength: 3 });
+    ms.open();
+
+    search('a');
+    search('');
+
+    expect(getStatus()).toBeNull();
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(3);
+  });
+
+  it('shows configurable no-results and empty texts', () => {
+    ms = new MultiSelect(select, {
+      searchDebounce: 0,
+      noResultsText: 'Nothing matches',
+      emptyText: 'Nothing here',
+    });
+    ms.open();
+
+    search('zzz');
+    expect(getStatus()?.getAttribute('data-status')).toBe('no-results');
+    expect(getStatus()?.textContent).toBe('Nothing matches');
+    expect(getLiveRegion().textContent).toBe('Nothing matches');
+
+    search('');
+    ms.setData([]);
+    expect(getStatus()?.getAttribute('data-status')).toBe('idle');
+    expect(getStatus()?.textContent).toBe('Nothing here');
+  });
+
+  it('renders statuses with renderStatus', () => {
+    const renderStatus = vi.fn(
+      (status: string, state: { message: string; remaining: number }) =>
+        `<em class="custom">${status}: ${state.message} (${String(state.remaining)})</em>`
+    );
+    ms = new MultiSelect(select, { searchDebounce: 0, searchMinLength: 2, renderStatus });
+    ms.open();
+
+    search('b');
+
+    expect(getStatus()?.querySelector('.custom')?.textContent).toBe(
+      'too-short: Type 1 more character (1)'
+    );
+    expect(renderStatus).toHaveBeenCalledWith('too-short', {
+      message: 'Type 1 more character',
+      query: 'b',
+      remaining: 1,
+    });
+  });
+
+  it('does not offer to create a too-short query', () => {
+    ms = new MultiSelect(select, { searchDebounce: 0, searchMinLength: 2, creatable: true });
+    ms.open();
+
+    search('k');
+
+    expect(document.querySelector('.ms-multiselect__create')).toBeNull();
+    expect(getStatus()?.getAttribute('data-status')).toBe('too-short');
+  });
+});
+
+describe('Search Status - Remote MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const getStatus = (): HTMLElement | null => document.querySelector('.ms-multiselect__status');
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('waits for searchMinLength before loading', async () => {
+    const load = vi.fn((query: string) =>
+      Promise.resolve(FRUITS.filter((fruit) => fruit.text.toLowerCase().includes(query)))
+    );
+    ms = new MultiSelect(select, { load, searchDebounce: 0, searchMinLength: 2 });
+
+    ms.open();
+    expect(load).not.toHaveBeenCalled();
+    expect(getStatus()?.textContent).toBe('Type 2 more characters');
+
+    search('a');
+    expect(load).not.toHaveBeenCalled();
+
+    search('an');
+    expect(getStatus()?.getAttribute('data-status')).toBe('searching');
+    expect(getStatus()?.textContent).toBe('Loading...');
+    await flush();
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(1);
+
+    // Shortening the query drops the results again
+    search('b');
+    expect(getStatus()?.getAttribute('data-status')).toBe('too-short');
+    expect(document.querySelectorAll('.ms-multiselect__option')).toHaveLength(0);
+  });
+
+  it('shows the error status when loading fails', async () => {
+    ms = new MultiSelect(select, {
+      load: () => Promise.reject(new Error('offline')),
+      searchDebounce: 0,
+    });
+    ms.open();
+    await flush();
+
+    expect(getStatus()?.getAttribute('data-status')).toBe('error');
+    expect(getStatus()?.textContent).toBe('Failed to load options');
+  });
+});
+
+describe('Search Status - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const getStatus = (): HTMLElement | null => document.querySelector('.ss-singleselect__status');
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="apple">Apple</option>
+      <option value="banana">Banana</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('shows the too-short and no-results statuses', () => {
+    ss = new SingleSelect(select, {
+      searchDebounce: 0,
+      searchMinLength: 2,
+      searchMinLengthTextSingular: 'One more, please',
+    });
+    ss.open();
+
+    search('b');
+    expect(getStatus()?.textContent).toBe('One more, please');
+    expect(document.querySelectorAll('.ss-singleselect__option')).toHaveLength(0);
+
+    search('bx');
+    expect(getStatus()?.getAttribute('data-status')).toBe('no-results');
+    expect(getStatus()?.textContent).toBe('No results found');
+
+    search('ba');
+    expect(getStatus()).toBeNull();
+    expect(document.querySelectorAll('.ss-singleselect__option')).toHaveLength(1);
+  });
+});
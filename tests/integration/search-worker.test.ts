@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+import { SEARCH_WORKER_SOURCE } from '@/SearchWorkerSource';
+import { searchScore } from '@/utils';
+import type { MultiSelectSearchEventDetail, SearchStrategy, TextNormalizeOptions } from '@/types';
+
+/**
+ * In-process stand-in for a Web Worker: runs the worker source against a fake global
+ * scope and holds its replies until deliver() is called
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static sources = new Map<string, string>();
+
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: ((e: { message: string; preventDefault: () => void }) => void) | null = null;
+  terminated = false;
+  received: unknown[] = [];
+  private replies: unknown[] = [];
+  private scope: {
+    onmessage: ((e: { data: unknown }) => void) | null;
+    postMessage: (data: unknown) => void;
+  };
+
+  constructor(url: string) {
+    this.scope = {
+      onmessage: null,
+      postMessage: (data) => {
+        this.replies.push(data);
+      },
+    };
+    new Function('self', FakeWorker.sources.get(url) ?? '')(this.scope);
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    const message = structuredClone(data);
+    this.received.push(message);
+    this.scope.onmessage?.({ data: message });
+  }
+
+  deliver(): void {
+    const replies = this.replies;
+    this.replies = [];
+    replies.forEach((data) => this.onmessage?.({ data }));
+  }
+
+  fail(): void {
+    this.onerror?.({ message: 'boom', preventDefault: () => undefined });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Search Worker - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): void => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+  };
+
+  const renderedValues = (): (string | null)[] =>
+    Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal(
+      'Blob',
+      class {
+        constructor(public parts: string[]) {}
+      }
+    );
+    URL.createObjectURL = (blob: Blob) => {
+      const url = `blob:search-${String(FakeWorker.sources.size)}`;
+      FakeWorker.sources.set(url, (blob as unknown as { parts: string[] }).parts.join(''));
+      return url;
+    };
+    URL.revokeObjectURL = () => undefined;
+
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="us">United States</option>
+      <option value="uk">United Kingdom</option>
+      <option value="fr" data-description="Europe">France</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+    vi.unstubAllGlobals();
+  });
+
+  it('renders results once the worker replies', async () => {
+    ms = new MultiSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    search('united');
+    expect(renderedValues()).toEqual(['us', 'uk', 'fr']);
+    expect(onSearch).not.toHaveBeenCalled();
+
+    FakeWorker.instances[0]!.deliver();
+    await settle();
+
+    expect(renderedValues()).toEqual(['us', 'uk']);
+    const detail = (onSearch.mock.calls[0]![0] as CustomEvent<MultiSelectSearchEventDetail>).detail;
+    expect(detail.query).toBe('united');
+    expect(detail.resultsCount).toBe(2);
+  });
+
+  it('sends the option index once and matches the configured fields', async () => {
+    ms = new MultiSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ms.open();
+    const worker = FakeWorker.instances[0]!;
+
+    search('europe');
+    worker.deliver();
+    await settle();
+    search('king');
+    worker.deliver();
+    await settle();
+
+    expect(
+      worker.received.filter((message) => (message as { type: string }).type === 'index')
+    ).toHaveLength(1);
+    expect(worker.received[0]).toEqual({
+      type: 'index',
+      entries: [
+        { value: 'us', fields: ['United States'] },
+        { value: 'uk', fields: ['United Kingdom'] },
+        { value: 'fr', fields: ['France', 'Europe'] },
+      ],
+      options: { locale: null, ignorePunctuation: false, ignoreWhitespace: false, normalize: null },
+    });
+    expect(renderedValues()).toEqual(['uk']);
+  });
+
+  it('drops results of outdated queries', async () => {
+    ms = new MultiSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ms.open();
+    const onSearch = vi.fn();
+    select.addEventListener('multiselect:search', onSearch);
+
+    search('united');
+    search('france');
+    FakeWorker.instances[0]!.deliver();
+    await settle();
+
+    expect(renderedValues()).toEqual(['fr']);
+    expect(onSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores replies that arrive after the search was cleared', async () => {
+    ms = new MultiSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ms.open();
+
+    search('france');
+    search('');
+    FakeWorker.instances[0]!.deliver();
+    await settle();
+
+    expect(renderedValues()).toEqual(['us', 'uk', 'fr']);
+  });
+
+  it('re-indexes after options change', async () => {
+    ms = new MultiSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ms.open();
+    const worker = FakeWorker.instances[0]!;
+
+    search('fra');
+    worker.deliver();
+    await settle();
+
+    ms.addOptions([{ value: 'ca', text: 'Canada' }]);
+    search('canada');
+    worker.deliver();
+    await settle();
+
+    expect(renderedValues()).toEqual(['ca']);
+  });
+
+  it('falls back to the main thread when the worker fails', async () => {
+    ms = new MultiSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ms.open();
+    const worker = FakeWorker.instances[0]!;
+
+    search('france');
+    worker.fail();
+    await settle();
+
+    expect(renderedValues()).toEqual(['fr']);
+    expect(worker.terminated).toBe(true);
+
+    // Later searches run synchronously
+    search('kingdom');
+    expect(renderedValues()).toEqual(['uk']);
+  });
+
+  it('searches synchronously when a custom searchFilter is set', () => {
+    ms = new MultiSelect(select, {
+      searchWorker: true,
+      searchDebounce: 0,
+      searchFilter: (option) => option.value === 'uk',
+    });
+    ms.open();
+
+    search('x');
+
+    expect(FakeWorker.instances).toHaveLength(0);
+    expect(renderedValues()).toEqual(['uk']);
+  });
+
+  it('terminates the worker on destroy', () => {
+    ms = new MultiSelect(select, { searchWorker: true });
+
+    ms.destroy();
+
+    expect(FakeWorker.instances[0]!.terminated).toBe(true);
+  });
+});
+
+describe('Search Worker - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <option value="us">United States</option>
+      <option value="fr">France</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('searches synchronously when Worker is unavailable', () => {
+    expect(typeof Worker).toBe('undefined');
+    ss = new SingleSelect(select, { searchWorker: true, searchDebounce: 0 });
+    ss.open();
+
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = 'fra';
+    fireEvent.input(input);
+
+    const values = Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+    expect(values).toEqual(['fr']);
+  });
+});
+
+describe('Search Worker - Source', () => {
+  it('scores like searchScore()', () => {
+    const replies: { matches: [string, number][] }[] = [];
+    const scope = {
+      onmessage: null as ((e: { data: unknown }) => void) | null,
+      postMessage: (data: { matches: [string, number][] }) => replies.push(data),
+    };
+    new Function('self', SEARCH_WORKER_SOURCE)(scope);
+
+    // Several searched fields per option, like text, description and metadata
+    const entries = [
+      { value: 'dessert', fields: ['Crème Brûlée', 'French dessert', 'custard'] },
+      { value: 'nyc', fields: ['New-York City', 'Big Apple'] },
+      { value: 'street', fields: ['Straße'] },
+      { value: 'ist', fields: ['İstanbul', 'Türkiye', 'bosphorus strait'] },
+      { value: 'abc', fields: ['a.b c', ''] },
+    ];
+    const strategies: SearchStrategy[] = ['contains', 'startsWith', 'exact', 'fuzzy'];
+    const optionSets: TextNormalizeOptions[] = [
+      {},
+      { locale: 'tr' },
+      { ignorePunctuation: true, ignoreWhitespace: true },
+    ];
+    const queries = ['creme', 'ny', 'nyc', 'strasse', 'istanbul', 'ab', 'york city', ' ', 'str'];
+
+    optionSets.forEach((options) => {
+      scope.onmessage?.({ data: { type: 'index', entries, options } });
+      queries.forEach((query) => {
+        strategies.forEach((strategy) => {
+          scope.onmessage?.({ data: { type: 'search', seq: 1, query, strategy } });
+          const expected = entries
+            .map((entry): [string, number] => [
+              entry.value,
+              Math.max(
+                ...entry.fields.map((field) => searchScore(field, query, strategy, options))
+              ),
+            ])
+            .filter(([, score]) => score > 0);
+          expect(replies.pop()!.matches).toEqual(expected);
+        });
+      });
+    });
+  });
+});
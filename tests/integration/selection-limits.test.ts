@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import type { MultiSelectLimitEventDetail, MultiSelectPasteEventDetail } from '@/types';
+
+describe('Selection Limits - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const getOption = (value: string): HTMLElement =>
+    document.querySelector(`.ms-multiselect__option[data-value="${value}"]`) as HTMLElement;
+
+  const getLiveRegion = (): HTMLElement =>
+    document.querySelector('.ms-multiselect__live-region') as HTMLElement;
+
+  const getLimitMessage = (): HTMLElement =>
+    document.querySelector('.ms-multiselect__limit') as HTMLElement;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="red">Red</option>
+      <option value="green">Green</option>
+      <option value="blue">Blue</option>
+      <option value="black">Black</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('makes the remaining options non-selectable at maxSelections', () => {
+    ms = new MultiSelect(select, { maxSelections: 2 });
+    ms.open();
+    expect(getLimitMessage().hidden).toBe(true);
+
+    fireEvent.click(getOption('red'));
+    fireEvent.click(getOption('green'));
+
+    expect(ms.getValue()).toEqual(['red', 'green']);
+    expect(getOption('blue').classList.contains('ms-multiselect__option--limited')).toBe(true);
+    expect(getOption('blue').getAttribute('aria-disabled')).toBe('true');
+    expect(getOption('red').getAttribute('aria-disabled')).toBeNull();
+    expect(getLimitMessage().hidden).toBe(false);
+    expect(getLimitMessage().textContent).toBe('You can select up to 2');
+    expect(getLiveRegion().textContent).toBe(
+      'Green selected. 2 items selected. You can select up to 2.'
+    );
+
+    // Deselecting frees a slot again
+    fireEvent.click(getOption('red'));
+    expect(getOption('blue').classList.contains('ms-multiselect__option--limited')).toBe(false);
+    expect(getLimitMessage().hidden).toBe(true);
+  });
+
+  it('emits a cancelable limit event when selecting past the maximum', () => {
+    ms = new MultiSelect(select, { maxSelections: 1 });
+    ms.open();
+    const onLimit = vi.fn();
+    select.addEventListener('multiselect:limit', onLimit);
+
+    fireEvent.click(getOption('red'));
+    fireEvent.click(getOption('blue'));
+
+    expect(ms.getValue()).toEqual(['red']);
+    expect(onLimit).toHaveBeenCalledTimes(1);
+    const detail = (onLimit.mock.calls[0]![0] as CustomEvent<MultiSelectLimitEventDetail>).detail;
+    expect(detail.limit).toBe('max');
+    expect(detail.count).toBe(1);
+    expect(detail.option?.value).toBe('blue');
+    expect(getLiveRegion().textContent).toBe('You can select up to 1.');
+
+    // Preventing the event suppresses the announcement
+    select.addEventListener('multiselect:limit', (e) => e.preventDefault());
+    getLiveRegion().textContent = '';
+    fireEvent.click(getOption('green'));
+    expect(ms.getValue()).toEqual(['red']);
+    expect(getLiveRegion().textContent).toBe('');
+  });
+
+  it('limits setValue() and selectAll() to the maximum', () => {
+    ms = new MultiSelect(select, { maxSelections: 2 });
+
+    ms.setValue(['blue', 'red', 'green']);
+    expect(ms.getValue()).toEqual(['blue', 'red']);
+
+    ms.setValue(['black']);
+    ms.selectAll();
+    expect(ms.getValue()).toEqual(['black', 'red']);
+    expect(Array.from(select.selectedOptions).map((option) => option.value)).toEqual([
+      'red',
+      'black',
+    ]);
+  });
+
+  it('only caps the number of values in setValue()', () => {
+    ms = new MultiSelect(select, { maxSelections: 2 });
+
+    // Values that are not loaded yet are kept like without a limit
+    ms.setValue(['later', 'red', 'blue']);
+    expect(ms.getValue()).toEqual(['later', 'red']);
+  });
+
+  it('updates parent states after setValue()', () => {
+    select.innerHTML = `
+      <optgroup label="Warm">
+        <option value="red">Red</option>
+        <option value="orange">Orange</option>
+      </optgroup>
+      <option value="blue">Blue</option>
+    `;
+    ms = new MultiSelect(select, {
+      maxSelections: 2,
+      nestedOptions: true,
+      showParentCheckbox: true,
+      defaultExpanded: true,
+    });
+    ms.open();
+
+    ms.setValue(['red', 'blue']);
+
+    expect(ms.getValue()).toEqual(['red', 'blue']);
+    const parent = document.querySelector('.ms-multiselect__option--parent') as HTMLElement;
+    const checkbox = parent.querySelector('.ms-multiselect__checkbox') as HTMLInputElement;
+    expect(checkbox.indeterminate).toBe(true);
+    expect(checkbox.checked).toBe(false);
+  });
+
+  it('counts every child a cascading parent would select', () => {
+    select.innerHTML = `
+      <optgroup label="Warm">
+        <option value="red">Red</option>
+        <option value="orange">Orange</option>
+      </optgroup>
+      <option value="blue">Blue</option>
+    `;
+    ms = new MultiSelect(select, {
+      maxSelections: 2,
+      nestedOptions: true,
+      cascadeSelection: true,
+      showParentCheckbox: true,
+      defaultExpanded: true,
+    });
+    ms.open();
+
+    fireEvent.click(getOption('blue'));
+    const parent = document.querySelector('.ms-multiselect__option--parent') as HTMLElement;
+    expect(parent.classList.contains('ms-multiselect__option--limited')).toBe(true);
+
+    fireEvent.click(parent);
+    expect(ms.getValue()).toEqual(['blue']);
+
+    fireEvent.click(getOption('red'));
+    expect(ms.getValue()).toEqual(['red', 'blue']);
+  });
+
+  it('selects pasted matches up to the maximum', () => {
+    ms = new MultiSelect(select, { maxSelections: 2 });
+    ms.open();
+    const onLimit = vi.fn();
+    select.addEventListener('multiselect:limit', onLimit);
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    fireEvent.paste(input, { clipboardData: { getData: () => 'Red, Green, Blue' } });
+
+    expect(ms.getValue()).toEqual(['red', 'green']);
+    expect(onLimit).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports added and dropped values when pasting past the maximum', () => {
+    ms = new MultiSelect(select, { maxSelections: 2 });
+    ms.setValue(['black']);
+    ms.open();
+    const onPaste = vi.fn();
+    select.addEventListener('multiselect:paste', onPaste);
+
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    fireEvent.paste(input, { clipboardData: { getData: () => 'Red, Black, Green' } });
+
+    expect(ms.getValue()).toEqual(['black', 'red']);
+    const detail = (onPaste.mock.calls[0]![0] as CustomEvent<MultiSelectPasteEventDetail>).detail;
+    expect(detail.matched).toEqual(['red', 'black', 'green']);
+    expect(detail.added).toEqual(['red']);
+    expect(detail.dropped).toEqual(['green']);
+  });
+
+  it('marks the native select invalid below minSelections', () => {
+    ms = new MultiSelect(select, { minSelections: 2 });
+
+    expect(select.checkValidity()).toBe(false);
+    expect(select.validationMessage).toBe('Select at least 2');
+
+    ms.setValue(['red', 'green']);
+    expect(select.checkValidity()).toBe(true);
+
+    ms.setValue(['red']);
+    expect(select.checkValidity()).toBe(false);
+
+    ms.destroy();
+    expect(select.checkValidity()).toBe(true);
+  });
+
+  it('clears down to the minimum with Clear All', () => {
+    ms = new MultiSelect(select, { minSelections: 1 });
+    ms.setValue(['red', 'green']);
+    ms.open();
+    const onLimit = vi.fn();
+    select.addEventListener('multiselect:limit', onLimit);
+
+    const clearBtn = document.querySelector('.ms-multiselect__button--clear') as HTMLElement;
+    fireEvent.click(clearBtn);
+
+    expect(ms.getValue()).toEqual(['red']);
+    expect(select.checkValidity()).toBe(true);
+    const detail = (onLimit.mock.calls[0]![0] as CustomEvent<MultiSelectLimitEventDetail>).detail;
+    expect(detail.limit).toBe('min');
+    expect(detail.count).toBe(1);
+    expect(getLiveRegion().textContent).toBe('Select at least 1.');
+  });
+});
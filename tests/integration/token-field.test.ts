@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+
+describe('Token Field Mode - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const getInput = (): HTMLInputElement =>
+    document.querySelector('.ms-multiselect__token-input') as HTMLInputElement;
+
+  const getTags = (): HTMLElement[] =>
+    Array.from(document.querySelectorAll<HTMLElement>('.ms-multiselect__tag'));
+
+  const type = (text: string): HTMLInputElement => {
+    const input = getInput();
+    input.value = text;
+    fireEvent.input(input);
+    return input;
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="js" selected>JavaScript</option>
+      <option value="ts" selected>TypeScript</option>
+      <option value="py">Python</option>
+      <option value="go">Go</option>
+    `;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('renders tags followed by a combobox input inside the trigger', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens', maxTags: 1 });
+
+    const trigger = document.querySelector('.ms-multiselect__trigger') as HTMLElement;
+    const input = getInput();
+    const listbox = document.querySelector('.ms-multiselect__options') as HTMLElement;
+
+    expect(trigger.classList.contains('ms-multiselect__trigger--tokens')).toBe(true);
+    expect(trigger.contains(input)).toBe(true);
+    expect(input.getAttribute('role')).toBe('combobox');
+    expect(input.getAttribute('aria-controls')).toBe(listbox.id);
+    expect(getTags().map((tag) => tag.getAttribute('data-value'))).toEqual(['js', 'ts']);
+    expect(input.previousElementSibling?.classList.contains('ms-multiselect__tags')).toBe(true);
+    expect(document.querySelector('.ms-multiselect__search-input')).toBeNull();
+  });
+
+  it('shows the placeholder only while nothing is selected', () => {
+    select.querySelectorAll('option').forEach((option) => {
+      option.selected = false;
+    });
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens', placeholder: 'Languages' });
+
+    expect(getInput().placeholder).toBe('Languages');
+    ms.setValue(['py']);
+    expect(getInput().placeholder).toBe('');
+  });
+
+  it('opens and filters the dropdown while typing', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens', searchDebounce: 0 });
+
+    const input = type('py');
+
+    expect(ms.isOpen).toBe(true);
+    expect(input.getAttribute('aria-expanded')).toBe('true');
+    const values = Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+    expect(values).toEqual(['py']);
+  });
+
+  it('selects the highlighted option with Enter and clears the typed text', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens', searchDebounce: 0 });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const input = type('go');
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+    const activeId = input.getAttribute('aria-activedescendant');
+    expect(document.getElementById(activeId!)?.getAttribute('data-value')).toBe('go');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ms.getValue()).toEqual(['js', 'ts', 'go']);
+    expect(input.value).toBe('');
+    expect(getTags()).toHaveLength(3);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes the last tag with Backspace on an empty input', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens', searchDebounce: 0 });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    const input = type('p');
+    fireEvent.keyDown(input, { key: 'Backspace' });
+    expect(ms.getValue()).toEqual(['js', 'ts']);
+
+    type('');
+    fireEvent.keyDown(input, { key: 'Backspace' });
+
+    expect(ms.getValue()).toEqual(['js']);
+    expect(select.querySelector<HTMLOptionElement>('option[value="ts"]')?.selected).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves focus between the input and tags with the arrow keys', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens' });
+
+    const input = getInput();
+    input.focus();
+    fireEvent.keyDown(input, { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(getTags()[1]);
+
+    fireEvent.keyDown(getTags()[1]!, { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(getTags()[0]);
+
+    fireEvent.keyDown(getTags()[0]!, { key: 'ArrowRight' });
+    fireEvent.keyDown(getTags()[1]!, { key: 'ArrowRight' });
+    expect(document.activeElement).toBe(input);
+  });
+
+  it('removes a focused tag with Backspace and keeps focus nearby', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens' });
+
+    const tag = getTags()[1]!;
+    tag.focus();
+    fireEvent.keyDown(tag, { key: 'Backspace' });
+
+    expect(ms.getValue()).toEqual(['js']);
+    expect(document.activeElement).toBe(getTags()[0]);
+
+    fireEvent.keyDown(getTags()[0]!, { key: 'Delete' });
+    expect(ms.getValue()).toEqual([]);
+    expect(document.activeElement).toBe(getInput());
+  });
+
+  it('creates options from the typed text when creatable', () => {
+    ms = new MultiSelect(select, {
+      selectedDisplayMode: 'tokens',
+      creatable: true,
+      searchDebounce: 0,
+    });
+
+    const input = type('Rust');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(ms.getValue()).toEqual(['js', 'ts', 'Rust']);
+    expect(getTags().map((tag) => tag.getAttribute('data-value'))).toContain('Rust');
+  });
+
+  it('disables the inline input with the component', () => {
+    ms = new MultiSelect(select, { selectedDisplayMode: 'tokens' });
+
+    ms.disable();
+    expect(getInput().disabled).toBe(true);
+    fireEvent.click(document.querySelector('.ms-multiselect__trigger') as HTMLElement);
+    expect(ms.isOpen).toBe(false);
+
+    ms.enable();
+    expect(getInput().disabled).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+const REGIONS = `
+  <optgroup label="Europe">
+    <option value="fr">France</option>
+    <option value="de">Germany</option>
+  </optgroup>
+  <optgroup label="Asia">
+    <option value="jp">Japan</option>
+    <option value="cn">China</option>
+  </optgroup>
+`;
+
+describe('Tree Search - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const search = (query: string): (string | null)[] => {
+    const input = document.querySelector('.ms-multiselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+    return renderedValues();
+  };
+
+  const renderedValues = (): (string | null)[] =>
+    Array.from(document.querySelectorAll('.ms-multiselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = REGIONS;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('shows matching children with their ancestors only', () => {
+    ms = new MultiSelect(select, { nestedOptions: true, searchDebounce: 0 });
+    ms.open();
+
+    expect(search('france')).toEqual(['__group_Europe', 'fr']);
+  });
+
+  it('keeps the whole subtree of a matching parent', () => {
+    ms = new MultiSelect(select, { nestedOptions: true, searchDebounce: 0 });
+    ms.open();
+
+    // The matching parent keeps its own expansion state
+    expect(search('asia')).toEqual(['__group_Asia']);
+
+    ms.expandGroup('__group_Asia');
+    expect(renderedValues()).toEqual(['__group_Asia', 'jp', 'cn']);
+  });
+
+  it('restores collapsed groups when the query is cleared', () => {
+    ms = new MultiSelect(select, { nestedOptions: true, searchDebounce: 0 });
+    ms.open();
+
+    search('an');
+    expect(renderedValues()).toEqual(['__group_Europe', 'fr', 'de', '__group_Asia', 'jp']);
+
+    expect(search('')).toEqual(['__group_Europe', '__group_Asia']);
+  });
+
+  it('keeps groups that were expanded before the search', () => {
+    ms = new MultiSelect(select, { nestedOptions: true, searchDebounce: 0 });
+    ms.expandGroup('__group_Asia');
+    ms.open();
+
+    expect(search('france')).toEqual(['__group_Europe', 'fr']);
+    expect(search('')).toEqual(['__group_Europe', '__group_Asia', 'jp', 'cn']);
+  });
+
+  it('restores the expansion when the dropdown closes', () => {
+    ms = new MultiSelect(select, { nestedOptions: true, searchDebounce: 0 });
+    ms.open();
+
+    search('japan');
+    ms.close();
+    ms.open();
+
+    expect(renderedValues()).toEqual(['__group_Europe', '__group_Asia']);
+  });
+
+  it('leaves matching branches collapsed without expandOnSearch', () => {
+    ms = new MultiSelect(select, {
+      nestedOptions: true,
+      searchDebounce: 0,
+      expandOnSearch: false,
+    });
+    ms.open();
+
+    expect(search('japan')).toEqual(['__group_Asia']);
+  });
+});
+
+describe('Tree Search - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  const search = (query: string): (string | null)[] => {
+    const input = document.querySelector('.ss-singleselect__search-input') as HTMLInputElement;
+    input.value = query;
+    fireEvent.input(input);
+    return Array.from(document.querySelectorAll('.ss-singleselect__option')).map((el) =>
+      el.getAttribute('data-value')
+    );
+  };
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = REGIONS;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('shows matching branches and restores the expansion afterwards', () => {
+    ss = new SingleSelect(select, { nestedOptions: true, searchDebounce: 0 });
+    ss.open();
+
+    expect(search('china')).toEqual(['__group_Asia', 'cn']);
+    expect(search('')).toEqual(['__group_Europe', '__group_Asia']);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+const STATES = `
+  <option value="tn">Tennessee</option>
+  <option value="tx">Texas</option>
+  <option value="ut" disabled>Utah</option>
+  <option value="ny">New York</option>
+  <option value="nv">Nevada</option>
+`;
+
+describe('Type-ahead - MultiSelect', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  const getTrigger = (): HTMLElement =>
+    document.querySelector('.ms-multiselect__trigger') as HTMLElement;
+
+  const type = (text: string): void => {
+    text.split('').forEach((key) => {
+      fireEvent.keyDown(getTrigger(), { key });
+    });
+  };
+
+  const focusedValue = (): string | null | undefined =>
+    document.querySelector('.ms-multiselect__option--focused')?.getAttribute('data-value');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = STATES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+    vi.useRealTimers();
+  });
+
+  it('focuses the first option starting with the typed text', () => {
+    ms = new MultiSelect(select, { searchEnabled: false });
+    ms.open();
+
+    type('tex');
+
+    expect(focusedValue()).toBe('tx');
+    expect(ms.getValue()).toEqual([]);
+  });
+
+  it('cycles through options on a repeated letter', () => {
+    ms = new MultiSelect(select, { searchEnabled: false });
+    ms.open();
+
+    type('n');
+    expect(focusedValue()).toBe('ny');
+    type('n');
+    expect(focusedValue()).toBe('nv');
+    type('n');
+    expect(focusedValue()).toBe('ny');
+  });
+
+  it('starts a new search after the timeout', () => {
+    ms = new MultiSelect(select, { searchEnabled: false, typeaheadTimeout: 300 });
+    ms.open();
+
+    type('t');
+    vi.advanceTimersByTime(300);
+    type('n');
+
+    expect(focusedValue()).toBe('ny');
+  });
+
+  it('skips disabled options and works from inside the list', () => {
+    ms = new MultiSelect(select, { searchEnabled: false });
+    ms.open();
+
+    const dropdown = document.querySelector('.ms-multiselect__dropdown') as HTMLElement;
+    fireEvent.keyDown(dropdown, { key: 'u' });
+
+    expect(focusedValue()).toBeUndefined();
+  });
+
+  it('matches multi-word text when typing a space', () => {
+    ms = new MultiSelect(select, { searchEnabled: false });
+    ms.open();
+
+    type('new y');
+
+    expect(focusedValue()).toBe('ny');
+    expect(ms.getValue()).toEqual([]);
+  });
+
+  it('leaves printable keys to the search input when search is enabled', () => {
+    ms = new MultiSelect(select);
+    ms.open();
+
+    type('tex');
+
+    expect(focusedValue()).toBeUndefined();
+  });
+});
+
+describe('Type-ahead - SingleSelect', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  const getTrigger = (): HTMLElement =>
+    document.querySelector('.ss-singleselect__trigger') as HTMLElement;
+
+  const type = (text: string): void => {
+    text.split('').forEach((key) => {
+      fireEvent.keyDown(getTrigger(), { key });
+    });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    select = document.createElement('select');
+    select.innerHTML = STATES;
+    document.body.appendChild(select);
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+    vi.useRealTimers();
+  });
+
+  it('focuses matching options in the open list', () => {
+    ss = new SingleSelect(select, { searchEnabled: false });
+    ss.open();
+
+    type('tex');
+
+    const focused = document.querySelector('.ss-singleselect__option--focused');
+    expect(focused?.getAttribute('data-value')).toBe('tx');
+    expect(ss.getValue()).toBe('tn');
+  });
+
+  it('changes the selection on the closed trigger', () => {
+    ss = new SingleSelect(select, { searchEnabled: false });
+    const onChange = vi.fn();
+    select.addEventListener('change', onChange);
+
+    type('ne');
+    expect(ss.getValue()).toBe('ny');
+    expect(select.value).toBe('ny');
+
+    vi.advanceTimersByTime(500);
+    type('n');
+    expect(ss.getValue()).toBe('nv');
+
+    expect(ss.isOpen).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not select on the closed trigger when search is enabled', () => {
+    ss = new SingleSelect(select);
+
+    type('tex');
+
+    expect(ss.getValue()).toBe('tn');
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/dom';
+import { MultiSelect } from '@/MultiSelect';
+import { SingleSelect } from '@/SingleSelect';
+
+function buildOptions(count: number): string {
+  return Array.from(
+    { length: count },
+    (_, i) => `<option value="${String(i)}">Option ${String(i)}</option>`
+  ).join('');
+}
+
+describe('MultiSelect - Virtual Scroll', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = buildOptions(1000);
+    document.body.appendChild(select);
+    ms = new MultiSelect(select, { virtualScroll: true, maxHeight: 200, virtualItemHeight: 40 });
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('renders only a window of options', () => {
+    const options = document.querySelectorAll('.ms-multiselect__option');
+    expect(options.length).toBeGreaterThan(0);
+    expect(options.length).toBeLessThan(20);
+  });
+
+  it('uses spacers to keep the full scroll height', () => {
+    const spacers = document.querySelectorAll<HTMLElement>('.ms-multiselect__virtual-spacer');
+    expect(spacers).toHaveLength(2);
+
+    const mounted = document.querySelectorAll('.ms-multiselect__option').length;
+    expect(spacers[1]!.style.height).toBe(`${String((1000 - mounted) * 40)}px`);
+  });
+
+  it('sets aria-setsize and aria-posinset on rows', () => {
+    const first = document.querySelector('.ms-multiselect__option');
+    expect(first?.getAttribute('aria-setsize')).toBe('1000');
+    expect(first?.getAttribute('aria-posinset')).toBe('1');
+  });
+
+  it('mounts new rows on scroll', () => {
+    const list = document.querySelector('.ms-multiselect__options') as HTMLElement;
+    list.scrollTop = 20000;
+    fireEvent.scroll(list);
+
+    expect(list.querySelector('[data-value="500"]')).toBeTruthy();
+    expect(list.querySelector('[data-value="0"]')).toBeNull();
+  });
+
+  it('mounts the focused row when navigating with End', () => {
+    ms.open();
+    const dropdown = document.querySelector('.ms-multiselect__dropdown') as HTMLElement;
+
+    fireEvent.keyDown(dropdown, { key: 'End' });
+
+    const last = document.querySelector('.ms-multiselect__option[data-value="999"]');
+    expect(last).toBeTruthy();
+    expect(last?.classList.contains('ms-multiselect__option--focused')).toBe(true);
+    expect(last?.getAttribute('aria-posinset')).toBe('1000');
+  });
+
+  it('keeps selection state for rows mounted later', () => {
+    ms.setValue(['900']);
+    const list = document.querySelector('.ms-multiselect__options') as HTMLElement;
+    list.scrollTop = 900 * 40;
+    fireEvent.scroll(list);
+
+    const row = list.querySelector('[data-value="900"]');
+    expect(row?.getAttribute('aria-selected')).toBe('true');
+  });
+});
+
+describe('MultiSelect - Virtual Scroll (Nested)', () => {
+  let select: HTMLSelectElement;
+  let ms: MultiSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <optgroup label="Group A">${buildOptions(50)}</optgroup>
+      <optgroup label="Group B"><option value="b1">B1</option></optgroup>
+    `;
+    document.body.appendChild(select);
+    ms = new MultiSelect(select, { virtualScroll: true, nestedOptions: true });
+  });
+
+  afterEach(() => {
+    ms.destroy();
+    select.remove();
+  });
+
+  it('updates set size when a group is expanded and collapsed', () => {
+    ms.expandGroup('__group_Group A');
+    let first = document.querySelector('.ms-multiselect__option');
+    expect(first?.getAttribute('aria-setsize')).toBe('52');
+
+    ms.collapseGroup('__group_Group A');
+    first = document.querySelector('.ms-multiselect__option');
+    expect(first?.getAttribute('aria-setsize')).toBe('2');
+  });
+});
+
+describe('SingleSelect - Virtual Scroll', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = buildOptions(1000);
+    document.body.appendChild(select);
+    ss = new SingleSelect(select, { virtualScroll: true, maxHeight: 200, virtualItemHeight: 40 });
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('renders only a window of options', () => {
+    const options = document.querySelectorAll('.ss-singleselect__option');
+    expect(options.length).toBeGreaterThan(0);
+    expect(options.length).toBeLessThan(20);
+    expect(options[0]?.getAttribute('aria-setsize')).toBe('1000');
+  });
+
+  it('navigates with Home and End', () => {
+    ss.open();
+    fireEvent.keyDown(document, { key: 'End' });
+
+    const last = document.querySelector('.ss-singleselect__option[data-value="999"]');
+    expect(last?.classList.contains('ss-singleselect__option--focused')).toBe(true);
+
+    fireEvent.keyDown(document, { key: 'Home' });
+    const first = document.querySelector('.ss-singleselect__option[data-value="0"]');
+    expect(first?.classList.contains('ss-singleselect__option--focused')).toBe(true);
+  });
+
+  it('scrolls to the selected option on open', () => {
+    ss.setValue('750');
+    ss.open();
+
+    const row = document.querySelector('.ss-singleselect__option[data-value="750"]');
+    expect(row).toBeTruthy();
+    expect(row?.getAttribute('aria-selected')).toBe('true');
+  });
+
+  it('selects an option with Enter after arrow navigation', () => {
+    ss.open();
+    fireEvent.keyDown(document, { key: 'ArrowUp' });
+    fireEvent.keyDown(document, { key: 'Enter' });
+
+    expect(ss.getValue()).toBe('999');
+  });
+});
+
+describe('SingleSelect - Virtual Scroll (Nested)', () => {
+  let select: HTMLSelectElement;
+  let ss: SingleSelect;
+
+  beforeEach(() => {
+    select = document.createElement('select');
+    select.innerHTML = `
+      <optgroup label="Europe">${buildOptions(100)}</optgroup>
+      <optgroup label="Asia"><option value="jp">Japan</option></optgroup>
+    `;
+    document.body.appendChild(select);
+    ss = new SingleSelect(select, { virtualScroll: true, nestedOptions: true });
+    ss.open();
+  });
+
+  afterEach(() => {
+    ss.destroy();
+    select.remove();
+  });
+
+  it('expands and collapses groups with arrow keys', () => {
+    fireEvent.keyDown(document, { key: 'ArrowDown' });
+    fireEvent.keyDown(document, { key: 'ArrowRight' });
+
+    let first = document.querySelector('.ss-singleselect__option');
+    expect(first?.getAttribute('aria-expanded')).toBe('true');
+    expect(first?.getAttribute('aria-setsize')).toBe('102');
+
+    fireEvent.keyDown(document, { key: 'ArrowLeft' });
+    first = document.querySelector('.ss-singleselect__option');
+    expect(first?.getAttribute('aria-expanded')).toBe('false');
+    expect(first?.getAttribute('aria-setsize')).toBe('2');
+  });
+
+  it('does not scroll to a selected option inside a collapsed group', () => {
+    ss.close();
+    ss.setValue('75');
+    ss.open();
+
+    const list = document.querySelector('.ss-singleselect__options') as HTMLElement;
+    expect(list.scrollTop).toBe(0);
+    const first = document.querySelector('.ss-singleselect__option');
+    expect(first?.getAttribute('aria-expanded')).toBe('false');
+    expect(first?.getAttribute('aria-setsize')).toBe('2');
+  });
+});
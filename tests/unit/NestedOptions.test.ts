@@ -40,6 +40,120 @@ describe('NestedOptions - Parsing', () => {
     expect(options[0].children).toHaveLength(2);
     expect(options[0].children[0]).toMatchObject({ value: '1a', text: 'Option 1A', level: 1 });
   });
+
+  it('parses deeply nested options with data-parent', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="electronics">Electronics</option>
+      <option value="computers" data-parent="electronics">Computers</option>
+      <option value="laptops" data-parent="computers">Laptops</option>
+      <option value="gaming" data-parent="laptops">Gaming Laptops</option>
+      <option value="books">Books</option>
+    `;
+
+    const options = NestedOptions.parseSelectElement(select, true);
+
+    expect(options.map((o) => o.value)).toEqual(['electronics', 'books']);
+    const gaming = NestedOptions.findOption(options, 'gaming');
+    expect(gaming).toMatchObject({ parent: 'laptops', level: 3 });
+    expect(NestedOptions.getParentChain(gaming!, options).map((o) => o.value)).toEqual([
+      'electronics',
+      'computers',
+      'laptops',
+    ]);
+  });
+
+  it('resolves data-parent declared before its parent and inside optgroups', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <optgroup label="Fruits">
+        <option value="lime" data-parent="citrus">Lime</option>
+        <option value="citrus">Citrus</option>
+        <option value="apple" data-parent="missing">Apple</option>
+      </optgroup>
+    `;
+
+    const options = NestedOptions.parseSelectElement(select, true);
+    const group = options[0];
+
+    expect(group.children.map((o) => o.value)).toEqual(['citrus', 'apple']);
+    expect(group.children[0].children[0]).toMatchObject({ value: 'lime', level: 2 });
+  });
+
+  it('parses data-* attributes into metadata', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="1" data-sku="A-1" data-unit-price="9.99">Option 1</option>
+      <option value="2" data-parent="1" data-sku="A-2">Option 2</option>
+    `;
+
+    const flat = NestedOptions.parseSelectElement(select, false);
+    expect(flat[0].meta).toEqual({ sku: 'A-1', unitPrice: '9.99' });
+
+    const nested = NestedOptions.parseSelectElement(select, true);
+    expect(nested[0].children[0].meta).toEqual({ sku: 'A-2' });
+  });
+
+  it('parses data-description and data-icon as option fields', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="pro" data-description="For growing teams" data-icon="★" data-sku="P-1">Pro</option>
+      <option value="free">Free</option>
+    `;
+
+    const [pro, free] = NestedOptions.parseSelectElement(select, false);
+    expect(pro).toMatchObject({
+      description: 'For growing teams',
+      icon: '★',
+      meta: { sku: 'P-1' },
+    });
+    expect(free).toMatchObject({ description: null, icon: null });
+  });
+
+  it('keeps options with circular data-parent at root level', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="a" data-parent="b">A</option>
+      <option value="b" data-parent="a">B</option>
+      <option value="c" data-parent="c">C</option>
+    `;
+
+    const options = NestedOptions.parseSelectElement(select, true);
+
+    expect(NestedOptions.getAllValues(options)).toEqual(['a', 'b', 'c']);
+    expect(options.map((o) => o.value)).toEqual(['a', 'c']);
+  });
+});
+
+describe('NestedOptions - Creating From Input', () => {
+  it('creates option tree from plain definitions', () => {
+    const options = NestedOptions.createOptionTree([
+      { value: 'fruits', text: 'Fruits', children: [{ value: 'apple', text: 'Apple', selected: true }] },
+      { value: 'other', text: 'Other', disabled: true },
+    ]);
+
+    expect(options).toHaveLength(2);
+    expect(options[0]).toMatchObject({ value: 'fruits', label: 'Fruits', level: 0, parent: null });
+    expect(options[0].children[0]).toMatchObject({
+      value: 'apple',
+      selected: true,
+      parent: 'fruits',
+      level: 1,
+    });
+    expect(options[1]).toMatchObject({ disabled: true, selected: false, children: [] });
+  });
+
+  it('copies metadata from plain definitions', () => {
+    const meta = { sku: 'X-1' };
+    const [option] = NestedOptions.createOptionTree([{ value: 'x', text: 'X', meta }]);
+
+    expect(option.meta).toEqual({ sku: 'X-1' });
+    expect(option.meta).not.toBe(meta);
+    expect(NestedOptions.createOptionTree([{ value: 'y', text: 'Y' }])[0].meta).toEqual({});
+  });
 });
 
 describe('NestedOptions - Tree Operations', () => {
@@ -115,6 +229,39 @@ describe('NestedOptions - Tree Operations', () => {
     expect(leaves).toHaveLength(3);
     expect(leaves.map((l) => l.value)).toEqual(['1a', '1b', '2']);
   });
+
+  it('inserts options under a parent at an index', () => {
+    const [added] = NestedOptions.createOptionTree([{ value: '1c', text: 'Option 1C' }], 'g1', 1);
+    NestedOptions.insertOptions(tree, [added], tree[0], 1);
+    expect(tree[0].children.map((c) => c.value)).toEqual(['1a', '1c', '1b']);
+  });
+
+  it('appends options at root level by default', () => {
+    const added = NestedOptions.createOptionTree([{ value: '3', text: 'Option 3' }]);
+    NestedOptions.insertOptions(tree, added, null);
+    expect(tree.map((o) => o.value)).toEqual(['g1', '2', '3']);
+  });
+
+  it('removes option with its children', () => {
+    NestedOptions.removeOption(tree, NestedOptions.findOption(tree, '1a')!);
+    expect(NestedOptions.getAllValues(tree)).toEqual(['g1', '1b', '2']);
+
+    NestedOptions.removeOption(tree, tree[0]);
+    expect(NestedOptions.getAllValues(tree)).toEqual(['2']);
+  });
+
+  it('converts option tree back to plain definitions', () => {
+    const inputs = NestedOptions.toOptionInputs(tree);
+    expect(inputs[0]).toMatchObject({ value: 'g1', text: 'Group 1' });
+    expect(inputs[0].children?.[1]).toEqual({
+      value: '1b',
+      text: 'Option 1B',
+      disabled: false,
+      selected: true,
+      children: [],
+      meta: {},
+    });
+  });
 });
 
 describe('NestedOptions - Selection Logic', () => {
@@ -173,6 +320,57 @@ describe('NestedOptions - Selection Logic', () => {
   });
 });
 
+describe('NestedOptions - Deep Selection Logic', () => {
+  let tree: OptionData[];
+
+  beforeEach(() => {
+    tree = NestedOptions.createOptionTree([
+      {
+        value: 'root',
+        text: 'Root',
+        children: [
+          {
+            value: 'mid',
+            text: 'Mid',
+            children: [
+              { value: 'leaf1', text: 'Leaf 1' },
+              { value: 'leaf2', text: 'Leaf 2' },
+            ],
+          },
+          { value: 'other', text: 'Other' },
+        ],
+      },
+    ]);
+  });
+
+  it('propagates indeterminate state through every level', () => {
+    const leaf = NestedOptions.findOption(tree, 'leaf1')!;
+    leaf.selected = true;
+    NestedOptions.updateParentState(leaf, tree);
+
+    expect(NestedOptions.findOption(tree, 'mid')).toMatchObject({ indeterminate: true });
+    expect(tree[0]).toMatchObject({ selected: false, indeterminate: true });
+  });
+
+  it('cascades selection across all depths', () => {
+    NestedOptions.selectWithCascade(tree[0], tree, true);
+    expect(NestedOptions.getLeafOptions(tree).every((o) => o.selected)).toBe(true);
+
+    NestedOptions.deselectWithCascade(NestedOptions.findOption(tree, 'mid')!, tree, true);
+    expect(tree[0]).toMatchObject({ selected: false, indeterminate: true });
+  });
+
+  it('updates all parent states bottom-up', () => {
+    NestedOptions.findOption(tree, 'leaf1')!.selected = true;
+    NestedOptions.findOption(tree, 'leaf2')!.selected = true;
+
+    NestedOptions.updateAllParentStates(tree);
+
+    expect(NestedOptions.findOption(tree, 'mid')).toMatchObject({ selected: true });
+    expect(tree[0]).toMatchObject({ selected: false, indeterminate: true });
+  });
+});
+
 describe('NestedOptions - Expand/Collapse', () => {
   let tree: OptionData[];
 
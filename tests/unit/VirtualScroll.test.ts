@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getVirtualRange, getScrollTopForIndex } from '@/VirtualScroll';
+
+describe('VirtualScroll - Range', () => {
+  it('returns an empty range for an empty list', () => {
+    expect(getVirtualRange(0, 300, 40, 0, 5)).toEqual({
+      start: 0,
+      end: 0,
+      offsetTop: 0,
+      offsetBottom: 0,
+    });
+  });
+
+  it('mounts only the viewport plus overscan at the top', () => {
+    const range = getVirtualRange(0, 300, 40, 1000, 5);
+    expect(range.start).toBe(0);
+    expect(range.end).toBe(13); // ceil(300 / 40) + 5
+    expect(range.offsetTop).toBe(0);
+    expect(range.offsetBottom).toBe((1000 - 13) * 40);
+  });
+
+  it('mounts rows around the scroll position', () => {
+    const range = getVirtualRange(4000, 300, 40, 1000, 5);
+    expect(range.start).toBe(95);
+    expect(range.end).toBe(113);
+    expect(range.offsetTop).toBe(95 * 40);
+  });
+
+  it('clamps scroll position beyond the end of the list', () => {
+    const range = getVirtualRange(100000, 300, 40, 20, 5);
+    expect(range.end).toBe(20);
+    expect(range.offsetBottom).toBe(0);
+  });
+});
+
+describe('VirtualScroll - Scroll To Index', () => {
+  it('keeps scroll position when row is already visible', () => {
+    expect(getScrollTopForIndex(3, 0, 300, 40)).toBe(0);
+  });
+
+  it('scrolls up to a row above the viewport', () => {
+    expect(getScrollTopForIndex(2, 400, 300, 40)).toBe(80);
+  });
+
+  it('scrolls down so a row below the viewport is at the bottom', () => {
+    expect(getScrollTopForIndex(20, 0, 300, 40)).toBe(21 * 40 - 300);
+  });
+});
@@ -6,13 +6,20 @@ import {
   toggleClass,
   hasClass,
   searchMatch,
+  searchScore,
+  fuzzyScore,
+  getMatchRanges,
+  findTypeaheadIndex,
+  highlightText,
   normalizeText,
   formatSelectedText,
   truncate,
   escapeHtml,
   unique,
   arraysEqual,
+  buildNativeOptions,
 } from '@/utils';
+import type { OptionData } from '@/types';
 
 describe('DOM Utilities', () => {
   it('creates element with className and attributes', () => {
@@ -57,6 +64,31 @@ describe('Search Utilities', () => {
     expect(normalizeText('UPPERCASE')).toBe('uppercase');
   });
 
+  it('strips diacritics when normalizing text', () => {
+    expect(normalizeText('São Paulo')).toBe('sao paulo');
+    expect(normalizeText('Crème Brûlée')).toBe('creme brulee');
+    expect(searchMatch('São Paulo', 'sao', 'contains')).toBe(true);
+  });
+
+  it('folds case using the given locale', () => {
+    expect(normalizeText('İstanbul', { locale: 'tr' })).toBe('istanbul');
+    expect(normalizeText('ISPARTA', { locale: 'tr' })).toBe('ısparta');
+    expect(normalizeText('STRASSE')).toBe(normalizeText('Straße'));
+  });
+
+  it('optionally ignores punctuation and whitespace', () => {
+    expect(normalizeText('U.S.A.', { ignorePunctuation: true })).toBe('usa');
+    expect(normalizeText('New  York', { ignoreWhitespace: true })).toBe('newyork');
+    const options = { ignorePunctuation: true, ignoreWhitespace: true };
+    expect(searchMatch('AB-12 34', 'ab1234', 'exact', options)).toBe(true);
+  });
+
+  it('uses a custom normalize function instead of the built-in steps', () => {
+    const normalize = (text: string) => text.toUpperCase();
+    expect(normalizeText('São', { normalize })).toBe('SÃO');
+    expect(searchMatch('abc', 'ABC', 'exact', { normalize: (text) => text })).toBe(false);
+  });
+
   it('matches text with contains strategy', () => {
     expect(searchMatch('Hello World', 'world', 'contains')).toBe(true);
     expect(searchMatch('Hello World', 'foo', 'contains')).toBe(false);
@@ -75,6 +107,90 @@ describe('Search Utilities', () => {
   it('returns true for empty query', () => {
     expect(searchMatch('anything', '', 'contains')).toBe(true);
   });
+
+  it('matches text with fuzzy strategy', () => {
+    expect(searchMatch('California', 'calfornia', 'fuzzy')).toBe(true);
+    expect(searchMatch('California', 'xyz', 'fuzzy')).toBe(false);
+  });
+
+  it('scores fuzzy matches by exact, prefix, word and subsequence hits', () => {
+    expect(fuzzyScore('Cal', 'cal')).toBe(1);
+    expect(fuzzyScore('California', 'cal')).toBe(0.9);
+    expect(fuzzyScore('New Caledonia', 'cal')).toBe(0.8);
+    expect(fuzzyScore('Localhost', 'cal')).toBe(0.7);
+
+    const typo = fuzzyScore('California', 'calfornia');
+    const scattered = fuzzyScore('Cape Verde Islands', 'cvi');
+    const loose = fuzzyScore('Mexico City', 'mcy');
+    expect(typo).toBeGreaterThan(0);
+    expect(typo).toBeLessThan(0.7);
+    expect(scattered).toBeGreaterThan(loose);
+    expect(fuzzyScore('California', 'cz')).toBe(0);
+  });
+
+  it('scores non-fuzzy strategies as match or no match', () => {
+    expect(searchScore('Hello World', 'world', 'contains')).toBe(1);
+    expect(searchScore('Hello World', 'foo', 'contains')).toBe(0);
+    expect(searchScore('Hello World', 'hlo', 'fuzzy')).toBeGreaterThan(0);
+  });
+
+  it('finds match ranges for each strategy', () => {
+    expect(getMatchRanges('Banana', 'a', 'contains')).toEqual([
+      { start: 1, end: 2 },
+      { start: 3, end: 4 },
+      { start: 5, end: 6 },
+    ]);
+    // Touching occurrences merge into one range
+    expect(getMatchRanges('Banana', 'an', 'contains')).toEqual([{ start: 1, end: 5 }]);
+    expect(getMatchRanges('Banana', 'ban', 'startsWith')).toEqual([{ start: 0, end: 3 }]);
+    expect(getMatchRanges('Banana', 'nan', 'startsWith')).toEqual([]);
+    expect(getMatchRanges('  Banana ', 'banana', 'exact')).toEqual([{ start: 2, end: 8 }]);
+    expect(getMatchRanges('California', 'cfa', 'fuzzy')).toEqual([
+      { start: 0, end: 1 },
+      { start: 4, end: 5 },
+      { start: 9, end: 10 },
+    ]);
+  });
+
+  it('maps match ranges back through normalization', () => {
+    expect(getMatchRanges('São Paulo', 'sao', 'contains')).toEqual([{ start: 0, end: 3 }]);
+    // Decomposed input: the combining tilde belongs to the match
+    expect(getMatchRanges('Sa\u0303o', 'sao', 'contains')).toEqual([{ start: 0, end: 4 }]);
+    expect(getMatchRanges('Straße', 'strass', 'contains')).toEqual([{ start: 0, end: 5 }]);
+    expect(getMatchRanges('AB-12', 'b1', 'contains', { ignorePunctuation: true })).toEqual([
+      { start: 1, end: 4 },
+    ]);
+  });
+
+  it('returns no ranges when a custom normalizer cannot be mapped', () => {
+    const normalize = (text: string) => text.split('').reverse().join('');
+    expect(getMatchRanges('abc', 'cb', 'contains', { normalize })).toEqual([]);
+  });
+
+  it('highlights ranges with mark elements without parsing HTML', () => {
+    const element = document.createElement('span');
+    highlightText(element, '<b>Bold</b>', [{ start: 3, end: 7 }], 'hl');
+
+    const mark = element.querySelector('mark.hl');
+    expect(mark?.textContent).toBe('Bold');
+    expect(element.querySelector('b')).toBeNull();
+    expect(element.textContent).toBe('<b>Bold</b>');
+  });
+
+  it('finds type-ahead matches like a native select', () => {
+    const options = ['Alpha', 'Beta', 'Bravo', 'Bonn', 'Ça va'].map(
+      (text) => ({ text, disabled: text === 'Bravo' }) as OptionData
+    );
+
+    expect(findTypeaheadIndex(options, 'b', -1)).toBe(1);
+    // A new first letter starts after the current option, longer buffers include it
+    expect(findTypeaheadIndex(options, 'b', 1)).toBe(3);
+    expect(findTypeaheadIndex(options, 'be', 1)).toBe(1);
+    // Repeated letters cycle, skipping disabled options and wrapping around
+    expect(findTypeaheadIndex(options, 'bbb', 3)).toBe(1);
+    expect(findTypeaheadIndex(options, 'ca', -1)).toBe(4);
+    expect(findTypeaheadIndex(options, 'x', 0)).toBe(-1);
+  });
 });
 
 describe('String Utilities', () => {
@@ -110,3 +226,40 @@ describe('Array Utilities', () => {
     expect(arraysEqual([1, 2], [1, 2, 3])).toBe(false);
   });
 });
+
+describe('Selection Utilities', () => {
+  it('builds native options with optgroups from data', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    select.appendChild(new Option('Old', 'old'));
+
+    buildNativeOptions(select, [
+      { value: 'a', text: 'A', selected: true },
+      {
+        value: 'fruits',
+        text: 'Fruits',
+        children: [
+          { value: 'apple', text: 'Apple', disabled: true },
+          { value: 'citrus', text: 'Citrus', children: [{ value: 'lime', text: 'Lime' }] },
+        ],
+      },
+    ]);
+
+    const values = Array.from(select.options).map((o) => o.value);
+    expect(values).toEqual(['a', 'apple', 'citrus', 'lime']);
+    expect(select.querySelector('optgroup')?.label).toBe('Fruits');
+    expect(select.options[2]?.dataset.parent).toBeUndefined();
+    expect(select.options[3]?.dataset.parent).toBe('citrus');
+    expect(select.options[0]?.selected).toBe(true);
+    expect(select.options[1]?.disabled).toBe(true);
+  });
+
+  it('leaves a single select without a selection when none is marked', () => {
+    const select = document.createElement('select');
+    buildNativeOptions(select, [
+      { value: 'a', text: 'A' },
+      { value: 'b', text: 'B' },
+    ]);
+    expect(select.selectedIndex).toBe(-1);
+  });
+});